@@ -0,0 +1,176 @@
+import { IncomingMessage } from 'http';
+import { ClientMessage, SNAPSHOT_RATE } from '../shared/protocol';
+import { CHAT_BURST, CHAT_REFILL_INTERVAL } from '../shared/chat';
+import { PAINT_COOLDOWN } from '../shared/board';
+
+// Защита от злоупотреблений: лимиты сообщений на соединение, учёт нарушений
+// («страйков»), временные баны и ограничение числа соединений с одного адреса.
+// Обычный клиент в лимиты не упирается; тот, кто упирается постоянно, набирает
+// страйки, и после STRIKE_LIMIT за STRIKE_WINDOW мс его отключают и банят на время.
+
+// Сколько нарушений за окно приводят к отключению
+const STRIKE_LIMIT = 10;
+const STRIKE_WINDOW = 60_000;
+// Нарушения одного вида засчитываются не чаще раза в STRIKE_COOLDOWN мс:
+// всплеск (например, при изменении размера окна) — это одно нарушение, а не сотня
+const STRIKE_COOLDOWN = 1000;
+
+// Корзина токенов: до burst сообщений подряд, дальше perSecond в секунду
+export class TokenBucket {
+  private tokens: number;
+  private refilledAt: number;
+
+  constructor(private burst: number, private perSecond: number, now: number) {
+    this.tokens = burst;
+    this.refilledAt = now;
+  }
+
+  take(now: number): boolean {
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.refilledAt) / 1000) * this.perSecond);
+    this.refilledAt = now;
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+interface RateLimit {
+  burst: number;
+  perSecond: number;
+}
+
+// Лимиты по типам сообщений клиента. Вводы клиент шлёт пачками ~30 раз в секунду,
+// подтверждения — на каждый снимок; остальное — действия человека.
+const RATE_LIMITS: Record<ClientMessage['type'], RateLimit> = {
+  hello: { burst: 3, perSecond: 0.2 },
+  player_joined: { burst: 3, perSecond: 0.2 },
+  input: { burst: 60, perSecond: 40 },
+  snapshot_ack: { burst: 2 * SNAPSHOT_RATE, perSecond: 1.5 * SNAPSHOT_RATE },
+  join_room: { burst: 5, perSecond: 0.5 },
+  list_rooms: { burst: 5, perSecond: 1 },
+  request_game_state: { burst: 3, perSecond: 0.5 },
+  update_player: { burst: 10, perSecond: 2 },
+  chat: { burst: CHAT_BURST, perSecond: 1000 / CHAT_REFILL_INTERVAL },
+  viewport: { burst: 20, perSecond: 10 },
+  // Правило игры (PAINT_COOLDOWN) проверяется отдельно; здесь — с запасом сверх него
+  paint: { burst: 10, perSecond: 2 * (1000 / PAINT_COOLDOWN) },
+  mode_action: { burst: 10, perSecond: 5 },
+  pong: { burst: 3, perSecond: 1 },
+  leave: { burst: 2, perSecond: 1 },
+  error: { burst: 10, perSecond: 1 },
+};
+
+// Общий лимит кадров соединения — проверяется до разбора JSON
+const FRAME_LIMIT: RateLimit = { burst: 150, perSecond: 100 };
+
+// 'counted' — нарушение засчитано; 'kick' — нарушений набралось на отключение;
+// 'ignored' — такое нарушение уже засчитано недавно
+export type StrikeResult = 'ignored' | 'counted' | 'kick';
+
+// Лимиты и нарушения одного соединения
+export class MessageGuard {
+  private frames: TokenBucket;
+  private buckets: Map<string, TokenBucket> = new Map();
+  private strikes: number[] = [];
+  private lastStrikeAt: Map<string, number> = new Map();
+
+  // playerId — для игровых соединений (бан действует и на аккаунт), у лобби его нет
+  constructor(readonly ip: string, readonly playerId: string | undefined, now: number) {
+    this.frames = new TokenBucket(FRAME_LIMIT.burst, FRAME_LIMIT.perSecond, now);
+  }
+
+  allowFrame(now: number): boolean {
+    return this.frames.take(now);
+  }
+
+  allow(type: ClientMessage['type'], now: number): boolean {
+    let bucket = this.buckets.get(type);
+    if (!bucket) {
+      const { burst, perSecond } = RATE_LIMITS[type];
+      bucket = new TokenBucket(burst, perSecond, now);
+      this.buckets.set(type, bucket);
+    }
+    return bucket.take(now);
+  }
+
+  // kind — вид нарушения (тип сообщения, 'frames', 'invalid')
+  strike(kind: string, now: number): StrikeResult {
+    if (now - (this.lastStrikeAt.get(kind) ?? -Infinity) < STRIKE_COOLDOWN) return 'ignored';
+    this.lastStrikeAt.set(kind, now);
+    this.strikes = this.strikes.filter(at => now - at < STRIKE_WINDOW);
+    this.strikes.push(now);
+    return this.strikes.length >= STRIKE_LIMIT ? 'kick' : 'counted';
+  }
+}
+
+// Баны и число соединений по адресам — общие для всего сервера
+export class AccessControl {
+  // Ключ — 'ip:<адрес>' или 'player:<id>', значение — когда бан истекает
+  private bans: Map<string, number> = new Map();
+  private connections: Map<string, number> = new Map();
+  // Запрет чата по id игрока, значение — когда он истекает. Хранится здесь,
+  // а не в соединении, чтобы не сбрасываться перезагрузкой страницы
+  private mutes: Map<string, number> = new Map();
+
+  constructor(private maxConnectionsPerIp: number, readonly banDuration: number) {}
+
+  // Сколько мс ещё действует бан адреса или игрока; 0 — бана нет
+  bannedFor(ip: string, playerId: string | undefined, now: number): number {
+    const keys = playerId ? [`ip:${ip}`, `player:${playerId}`] : [`ip:${ip}`];
+    let remaining = 0;
+    keys.forEach((key) => {
+      const until = this.bans.get(key);
+      if (until === undefined) return;
+      if (until <= now) this.bans.delete(key);
+      else remaining = Math.max(remaining, until - now);
+    });
+    return remaining;
+  }
+
+  // Бан на адрес и аккаунт: за NAT пострадают и соседи, поэтому бан временный
+  ban(ip: string, playerId: string | undefined, now: number, duration = this.banDuration) {
+    const until = now + duration;
+    this.bans.set(`ip:${ip}`, until);
+    if (playerId) this.bans.set(`player:${playerId}`, until);
+  }
+
+  // Сколько мс ещё действует запрет чата; 0 — запрета нет
+  mutedFor(playerId: string, now: number): number {
+    const until = this.mutes.get(playerId);
+    if (until === undefined) return 0;
+    if (until > now) return until - now;
+    this.mutes.delete(playerId);
+    return 0;
+  }
+
+  // duration 0 снимает запрет
+  mute(playerId: string, now: number, duration: number) {
+    if (duration > 0) this.mutes.set(playerId, now + duration);
+    else this.mutes.delete(playerId);
+  }
+
+  canConnect(ip: string): boolean {
+    return (this.connections.get(ip) ?? 0) < this.maxConnectionsPerIp;
+  }
+
+  connectionOpened(ip: string) {
+    this.connections.set(ip, (this.connections.get(ip) ?? 0) + 1);
+  }
+
+  connectionClosed(ip: string) {
+    const count = (this.connections.get(ip) ?? 0) - 1;
+    if (count > 0) this.connections.set(ip, count);
+    else this.connections.delete(ip);
+  }
+}
+
+// Адрес клиента. За обратным прокси (TRUST_PROXY=1) — первый адрес из X-Forwarded-For,
+// иначе заголовку верить нельзя: его может подставить сам клиент
+export const getClientIp = (req: IncomingMessage): string => {
+  if (process.env.TRUST_PROXY) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
@@ -0,0 +1,182 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { GameConfig, Position } from '../shared/movement';
+import { MAX_ANNOUNCEMENT_LENGTH, PlayerStatus } from '../shared/protocol';
+import { Violation } from './anticheat';
+import { HttpError, readJsonBody, writeJson } from './http';
+
+// Администрирование работающего сервера: HTTP API на том же порту, что и игра.
+// Запрос должен нести секрет ADMIN_SECRET в заголовке Authorization: Bearer <секрет>;
+// без секрета API выключен. Команды:
+//   GET  /admin/players                                 — игроки на сервере
+//   GET  /admin/violations                              — последние нарушения движения
+//   POST /admin/kick        { playerId, message? }      — отключить
+//   POST /admin/ban         { playerId, duration?, message? } — отключить и забанить на duration мс
+//   POST /admin/mute        { playerId, duration }      — запретить чат на duration мс (0 — снять)
+//   POST /admin/teleport    { playerId, x, y }          — перенести игрока
+//   POST /admin/announce    { text }                    — объявление всем игрокам
+//   POST /admin/room-config { room, settings }          — изменить настройки комнаты (см. config.ts)
+
+const MAX_BODY_SIZE = 4096;
+// Сообщение отключённому игроку помещается в 'kicked'
+const MAX_KICK_MESSAGE_LENGTH = 200;
+
+export interface AdminPlayerInfo {
+  id: string;
+  name: string;
+  room: string;
+  x: number;
+  y: number;
+  status: PlayerStatus;
+  ip: string;
+  rtt?: number;
+  mutedUntil?: number;
+  violations: number;
+}
+
+// Что умеет сервер по командам администратора. Методы с playerId возвращают false,
+// если такого игрока на сервере нет
+export interface AdminCommands {
+  listPlayers(): AdminPlayerInfo[];
+  listViolations(): { playerId: string; violations: Violation[] }[];
+  kickPlayer(playerId: string, message: string): boolean;
+  banPlayer(playerId: string, duration: number | undefined, message: string): boolean;
+  mutePlayer(playerId: string, duration: number): boolean;
+  // 'blocked' — место занято стеной или вне поля
+  teleportPlayer(playerId: string, position: Position): boolean | 'blocked';
+  announce(text: string): void;
+  // null — комнаты нет; ошибка проверки настроек — Error
+  setRoomConfig(room: string, settings: unknown): GameConfig | null;
+}
+
+const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+export class AdminApi {
+  // Храним хеш: сравнение хешей одинаковой длины не выдаёт длину секрета по времени ответа
+  private secret: Buffer | null;
+
+  constructor(private commands: AdminCommands) {
+    const secret = process.env.ADMIN_SECRET;
+    this.secret = secret ? digest(secret) : null;
+    if (!secret) console.log('ADMIN_SECRET is not set: admin API is disabled');
+  }
+
+  // Обрабатывает /admin/...; ответ — JSON с результатом или { error }
+  async handleRequest(req: IncomingMessage, res: ServerResponse, path: string) {
+    if (req.method === 'OPTIONS') {
+      writeJson(res, 204, null);
+      return;
+    }
+    if (!this.secret) {
+      writeJson(res, 404, { error: 'Admin API is disabled' });
+      return;
+    }
+    if (!this.isAuthorized(req)) {
+      console.warn(`Rejected admin request ${path}: bad secret`);
+      writeJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      const result = req.method === 'GET' ? this.query(path) : await this.command(path, req);
+      writeJson(res, 200, result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        writeJson(res, error.status, { error: error.message });
+        return;
+      }
+      console.error(`Admin request ${path} failed:`, error);
+      writeJson(res, 500, { error: 'Internal error' });
+    }
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+    return scheme === 'Bearer' && !!token && timingSafeEqual(digest(token), this.secret!);
+  }
+
+  private query(path: string): unknown {
+    switch (path) {
+      case '/admin/players':
+        return { players: this.commands.listPlayers() };
+      case '/admin/violations':
+        return { players: this.commands.listViolations() };
+      default:
+        throw new HttpError(404, `Unknown admin query ${path}`);
+    }
+  }
+
+  private async command(path: string, req: IncomingMessage): Promise<unknown> {
+    if (req.method !== 'POST') throw new HttpError(405, 'Use GET or POST');
+    const body = await readJsonBody(req, MAX_BODY_SIZE);
+    console.log(`Admin command ${path}:`, JSON.stringify(body));
+
+    switch (path) {
+      case '/admin/kick': {
+        const message = optionalString(body, 'message', MAX_KICK_MESSAGE_LENGTH) ?? 'Kicked by an administrator';
+        return found(this.commands.kickPlayer(expectString(body, 'playerId'), message));
+      }
+      case '/admin/ban': {
+        const duration = optionalDuration(body, 'duration');
+        const message = optionalString(body, 'message', MAX_KICK_MESSAGE_LENGTH) ?? 'Banned by an administrator';
+        return found(this.commands.banPlayer(expectString(body, 'playerId'), duration, message));
+      }
+      case '/admin/mute': {
+        const duration = optionalDuration(body, 'duration');
+        if (duration === undefined) throw new HttpError(400, 'duration is required');
+        return found(this.commands.mutePlayer(expectString(body, 'playerId'), duration));
+      }
+      case '/admin/teleport': {
+        const position = { x: expectNumber(body, 'x'), y: expectNumber(body, 'y') };
+        const result = this.commands.teleportPlayer(expectString(body, 'playerId'), position);
+        if (result === 'blocked') throw new HttpError(409, 'Position is blocked or outside the field');
+        return found(result);
+      }
+      case '/admin/announce':
+        this.commands.announce(expectString(body, 'text', MAX_ANNOUNCEMENT_LENGTH));
+        return { ok: true };
+      case '/admin/room-config': {
+        let config: GameConfig | null;
+        try {
+          config = this.commands.setRoomConfig(expectString(body, 'room'), body.settings);
+        } catch (error) {
+          if (error instanceof HttpError) throw error;
+          throw new HttpError(400, (error as Error).message);
+        }
+        if (!config) throw new HttpError(404, 'Room not found');
+        return { ok: true, config };
+      }
+      default:
+        throw new HttpError(404, `Unknown admin command ${path}`);
+    }
+  }
+}
+
+const found = (ok: boolean) => {
+  if (!ok) throw new HttpError(404, 'Player not found');
+  return { ok: true };
+};
+
+const expectString = (body: Record<string, unknown>, field: string, maxLength = 64): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `${field} is required`);
+  if (value.length > maxLength) throw new HttpError(400, `${field} is longer than ${maxLength} characters`);
+  return value.trim();
+};
+
+const optionalString = (body: Record<string, unknown>, field: string, maxLength: number): string | undefined =>
+  body[field] === undefined ? undefined : expectString(body, field, maxLength);
+
+const expectNumber = (body: Record<string, unknown>, field: string): number => {
+  const value = body[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new HttpError(400, `${field} must be a number`);
+  return value;
+};
+
+// Длительность в мс: неотрицательное целое
+const optionalDuration = (body: Record<string, unknown>, field: string): number | undefined => {
+  if (body[field] === undefined) return undefined;
+  const value = expectNumber(body, field);
+  if (!Number.isInteger(value) || value < 0) throw new HttpError(400, `${field} must be a non-negative integer (ms)`);
+  return value;
+};
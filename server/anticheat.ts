@@ -0,0 +1,84 @@
+import { GameConfig, Position } from '../shared/movement';
+import { collidesWithWalls, TileMap } from '../shared/map';
+import { MovementViolation } from '../shared/protocol';
+import { ClientData, send } from './messages';
+
+// Проверки движения. Позиции считает сервер, поэтому подделать координаты клиент не может;
+// остаются попытки ускориться (присылать вводы быстрее реального времени) и ошибки
+// симуляции, которые проверки ловят до того, как позиция уйдёт другим игрокам.
+// Нарушитель возвращается на последнюю допустимую позицию и получает 'correction'.
+
+// Допуск на погрешность вычислений с плавающей точкой
+const EPSILON = 1e-6;
+// Сколько последних нарушений помнить для каждого игрока
+const MAX_LOGGED_VIOLATIONS = 50;
+
+export interface Violation {
+  time: number;
+  kind: MovementViolation;
+  detail: string;
+}
+
+// Журнал нарушений игрока: последние MAX_LOGGED_VIOLATIONS и общее число
+export class ViolationLog {
+  private entries: Violation[] = [];
+  private total = 0;
+
+  add(kind: MovementViolation, detail: string, time: number) {
+    this.entries.push({ time, kind, detail });
+    if (this.entries.length > MAX_LOGGED_VIOLATIONS) this.entries.shift();
+    this.total++;
+  }
+
+  list(): Violation[] {
+    return [...this.entries];
+  }
+
+  get count(): number {
+    return this.total;
+  }
+}
+
+// Проверяет один шаг игрока по собственному вводу; null — шаг допустим.
+// За один ввод игрок сдвигается не больше чем на moveSpeed по каждой оси
+export const checkStep = (
+  from: Position,
+  to: Position,
+  config: GameConfig,
+  map: TileMap
+): { kind: MovementViolation; detail: string } | null => {
+  const { moveSpeed, playerSize, fieldWidth, fieldHeight } = config;
+  const target = `(${to.x}, ${to.y})`;
+
+  if (!Number.isFinite(to.x) || !Number.isFinite(to.y)) {
+    return { kind: 'invalid_position', detail: `position ${target} is not finite` };
+  }
+  if (to.x < -EPSILON || to.y < -EPSILON ||
+      to.x > fieldWidth - playerSize + EPSILON || to.y > fieldHeight - playerSize + EPSILON) {
+    return { kind: 'out_of_bounds', detail: `position ${target} is outside the field` };
+  }
+  const dx = Math.abs(to.x - from.x);
+  const dy = Math.abs(to.y - from.y);
+  if (dx > moveSpeed + EPSILON || dy > moveSpeed + EPSILON) {
+    return { kind: 'speed', detail: `moved by (${dx}, ${dy}) in one input, limit is ${moveSpeed}` };
+  }
+  // Стоявший в стене (например, после смены карты) может из неё выбраться
+  if (collidesWithWalls(map, to, playerSize) && !collidesWithWalls(map, from, playerSize)) {
+    return { kind: 'wall_clip', detail: `moved into a wall at ${target}` };
+  }
+  return null;
+};
+
+// Записывает нарушение, отбрасывает ожидающие вводы и возвращает клиента
+// на серверную позицию игрока
+export const reportViolation = (client: ClientData, kind: MovementViolation, detail: string) => {
+  const player = client.playerData;
+  if (!player) return;
+  client.violations.add(kind, detail, Date.now());
+  console.warn(`Movement violation by ${player.id} (${kind}): ${detail}`);
+  client.pendingInputs = [];
+  send(client.ws, {
+    type: 'correction',
+    payload: { x: player.x, y: player.y, seq: client.lastProcessedInput, reason: kind },
+  });
+};
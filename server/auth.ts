@@ -0,0 +1,243 @@
+import { createHmac, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { promisify } from 'util';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  AUTH_PATHS,
+  AuthErrorCode,
+  AuthErrorResponse,
+  AuthProvider,
+  AuthSession,
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  normalizeUsername,
+  USERNAME_PATTERN,
+} from '../shared/auth';
+import { GameStorage } from './storage';
+import { HttpError, readJsonBody, writeJson } from './http';
+import { getClientIp, TokenBucket } from './abuse';
+
+// Вход игроков: учётные записи с паролем, вход через Supabase Auth и токены сессии.
+// Токен — полезная нагрузка и её HMAC-подпись секретом сервера (AUTH_SECRET);
+// без секрета он генерируется при запуске, и после перезапуска всем придётся войти заново.
+
+// Сколько действует токен сессии
+const SESSION_TTL = Number(process.env.SESSION_TTL) || 7 * 24 * 60 * 60 * 1000;
+// Ограничение тела запроса на вход
+const MAX_BODY_SIZE = 4096;
+// Параметры хеширования паролей
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+// Запросов на вход и регистрацию с одного адреса: каждый стоит вычисления scrypt,
+// а перебор паролей должен упираться в лимит. Пять попыток подряд, дальше одна в 12 с
+const AUTH_RATE_LIMIT = { burst: 5, perSecond: 1 / 12 };
+// Через столько мс простоя корзина адреса снова полная, и её можно забыть
+const AUTH_RATE_IDLE = (AUTH_RATE_LIMIT.burst / AUTH_RATE_LIMIT.perSecond) * 1000;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+// Ошибка входа; status — HTTP-код ответа
+export class AuthError extends Error {
+  constructor(readonly code: AuthErrorCode, message: string, readonly status: number) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// Проверенная сессия из токена
+export interface VerifiedSession {
+  playerId: string;
+  username: string;
+  provider: AuthProvider;
+}
+
+interface TokenPayload {
+  sub: string;
+  name: string;
+  provider: AuthProvider;
+  exp: number;
+}
+
+// Хеш хранится вместе с солью: scrypt$<соль>$<хеш>
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+};
+
+const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+// Хеш для проверки пароля несуществующего пользователя: ответ занимает столько же
+// времени, и по нему нельзя узнать, какие имена заняты
+const DUMMY_HASH = hashPassword(randomUUID());
+
+const resolveSecret = (): Buffer => {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return Buffer.from(secret);
+  console.warn('AUTH_SECRET is not set: using a random secret, sessions will not survive a restart');
+  return randomBytes(32);
+};
+
+export class AuthService {
+  private secret = resolveSecret();
+  // Проверка токенов Supabase Auth; null — вход через Supabase не настроен
+  private supabase: SupabaseClient | null = null;
+  // Лимиты запросов по адресам и время последнего запроса с адреса
+  private attempts: Map<string, { bucket: TokenBucket; lastAt: number }> = new Map();
+
+  constructor(private storage: GameStorage) {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
+    if (supabaseUrl && supabaseKey) {
+      this.supabase = createClient(supabaseUrl, supabaseKey, { auth: { persistSession: false } });
+    }
+  }
+
+  async register(username: string, password: string): Promise<AuthSession> {
+    const name = normalizeUsername(username);
+    if (!USERNAME_PATTERN.test(name)) {
+      throw new AuthError('invalid_request', 'Username must be 3-20 letters, digits, "_" or "-"', 400);
+    }
+    if (password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+      throw new AuthError(
+        'invalid_request',
+        `Password must be ${MIN_PASSWORD_LENGTH}-${MAX_PASSWORD_LENGTH} characters long`,
+        400
+      );
+    }
+
+    const account = { id: randomUUID(), username: name, passwordHash: await hashPassword(password) };
+    if (!(await this.storage.addAccount(account))) {
+      throw new AuthError('username_taken', 'This username is already taken', 409);
+    }
+    console.log(`Account registered: ${name}`);
+    return this.issue({ playerId: account.id, username: name, provider: 'local' });
+  }
+
+  async login(username: string, password: string): Promise<AuthSession> {
+    const account = await this.storage.findAccount(normalizeUsername(username));
+    const valid = await verifyPassword(password, account?.passwordHash ?? (await DUMMY_HASH));
+    if (!account || !valid) {
+      throw new AuthError('invalid_credentials', 'Wrong username or password', 401);
+    }
+    return this.issue({ playerId: account.id, username: account.username, provider: 'local' });
+  }
+
+  // Обменивает access token Supabase Auth на токен сессии игрового сервера
+  async loginWithSupabase(accessToken: string): Promise<AuthSession> {
+    if (!this.supabase) {
+      throw new AuthError('provider_disabled', 'Supabase sign-in is not configured on this server', 404);
+    }
+    const { data, error } = await this.supabase.auth.getUser(accessToken);
+    if (error || !data.user) {
+      throw new AuthError('invalid_credentials', 'Supabase session is not valid', 401);
+    }
+    const { user } = data;
+    const username = (user.user_metadata?.username as string | undefined) ?? user.email?.split('@')[0] ?? 'player';
+    return this.issue({ playerId: user.id, username, provider: 'supabase' });
+  }
+
+  // Проверяет подпись и срок действия токена; null — токен не принимается
+  verify(token: string): VerifiedSession | null {
+    const [body, signature] = token.split('.');
+    if (!body || !signature) return null;
+
+    const expected = this.sign(body);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+    let payload: TokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as TokenPayload;
+    } catch {
+      return null;
+    }
+    if (typeof payload.exp !== 'number' || payload.exp <= Date.now()) return null;
+    return { playerId: payload.sub, username: payload.name, provider: payload.provider };
+  }
+
+  // Обрабатывает POST /auth/...; ответ — AuthSession или AuthErrorResponse
+  async handleRequest(req: IncomingMessage, res: ServerResponse, path: string) {
+    if (req.method === 'OPTIONS') {
+      writeJson(res, 204, null);
+      return;
+    }
+    if (req.method !== 'POST') {
+      writeJson(res, 405, errorBody('invalid_request', 'Use POST'));
+      return;
+    }
+
+    try {
+      if (!this.allowAttempt(getClientIp(req), Date.now())) {
+        throw new AuthError('rate_limited', 'Too many sign-in attempts. Try again in a minute.', 429);
+      }
+      const body = await readJsonBody(req, MAX_BODY_SIZE);
+      let session: AuthSession;
+      switch (path) {
+        case AUTH_PATHS.register:
+          session = await this.register(expectField(body, 'username'), expectField(body, 'password'));
+          break;
+        case AUTH_PATHS.login:
+          session = await this.login(expectField(body, 'username'), expectField(body, 'password'));
+          break;
+        case AUTH_PATHS.supabase:
+          session = await this.loginWithSupabase(expectField(body, 'accessToken'));
+          break;
+        default:
+          throw new AuthError('invalid_request', `Unknown auth endpoint ${path}`, 404);
+      }
+      writeJson(res, 200, session);
+    } catch (error) {
+      if (error instanceof AuthError || error instanceof HttpError) {
+        const code = error instanceof AuthError ? error.code : 'invalid_request';
+        writeJson(res, error.status, errorBody(code, error.message));
+        return;
+      }
+      console.error(`Auth request ${path} failed:`, error);
+      writeJson(res, 500, errorBody('invalid_request', 'Sign-in is temporarily unavailable'));
+    }
+  }
+
+  private allowAttempt(ip: string, now: number): boolean {
+    this.attempts.forEach(({ lastAt }, address) => {
+      if (now - lastAt > AUTH_RATE_IDLE) this.attempts.delete(address);
+    });
+    let entry = this.attempts.get(ip);
+    if (!entry) {
+      entry = { bucket: new TokenBucket(AUTH_RATE_LIMIT.burst, AUTH_RATE_LIMIT.perSecond, now), lastAt: now };
+      this.attempts.set(ip, entry);
+    }
+    entry.lastAt = now;
+    const allowed = entry.bucket.take(now);
+    if (!allowed) console.warn(`Too many auth requests from ${ip}`);
+    return allowed;
+  }
+
+  private issue(session: VerifiedSession): AuthSession {
+    const expiresAt = Date.now() + SESSION_TTL;
+    const payload: TokenPayload = { sub: session.playerId, name: session.username, provider: session.provider, exp: expiresAt };
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const token = `${body}.${this.sign(body).toString('base64url')}`;
+    return { token, ...session, expiresAt };
+  }
+
+  private sign(body: string): Buffer {
+    return createHmac('sha256', this.secret).update(body).digest();
+  }
+}
+
+const errorBody = (code: AuthErrorCode, message: string): AuthErrorResponse => ({ error: { code, message } });
+
+const expectField = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || value.length === 0 || value.length > MAX_BODY_SIZE) {
+    throw new AuthError('invalid_request', `${field} is required`, 400);
+  }
+  return value;
+};
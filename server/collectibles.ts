@@ -0,0 +1,131 @@
+import { GameConfig, Position } from '../shared/movement';
+import { collidesWithWalls, TileMap } from '../shared/map';
+import {
+  Collectible,
+  COLLECTIBLE_RESPAWN,
+  COLLECTIBLE_SIZE,
+  COLLECTIBLE_VALUE,
+  RARE_COLLECTIBLE_CHANCE,
+  RARE_COLLECTIBLE_VALUE,
+} from '../shared/collectibles';
+import { SpatialGrid } from './grid';
+
+// Размер ячейки сетки предметов: игрок за тик проверяет одну-четыре ячейки
+const GRID_CELL_SIZE = 8;
+// Сколько случайных мест перебрать, прежде чем отложить появление предмета
+const PLACEMENT_ATTEMPTS = 50;
+
+// Пересекаются ли квадраты разного размера
+const overlaps = (a: Position, aSize: number, b: Position, bSize: number): boolean =>
+  a.x < b.x + bSize && b.x < a.x + aSize && a.y < b.y + bSize && b.y < a.y + aSize;
+
+// Предметы на поле одной комнаты: раскладывает их по свободным местам,
+// отдаёт подобранные и возвращает их на поле через COLLECTIBLE_RESPAWN мс.
+// Рассылкой и начислением очков занимается комната.
+export class CollectibleField {
+  private items: Map<number, Collectible> = new Map();
+  // Предметы по позиции (ключ — id предмета строкой)
+  private grid = new SpatialGrid(GRID_CELL_SIZE);
+  // Моменты, когда должны появиться новые предметы; задержка одна на всех,
+  // поэтому массив всегда упорядочен по времени
+  private respawns: number[] = [];
+  private nextId = 1;
+
+  // isOccupied — занято ли место игроками комнаты
+  constructor(
+    private config: GameConfig,
+    private map: TileMap,
+    private isOccupied: (position: Position, size: number) => boolean
+  ) {}
+
+  list(): Collectible[] {
+    return Array.from(this.items.values());
+  }
+
+  // Раскладывает count предметов сразу; не нашедшие места появятся позже
+  fill(count: number, now: number): Collectible[] {
+    const placed: Collectible[] = [];
+    for (let i = 0; i < count; i++) {
+      const item = this.place();
+      if (item) placed.push(item);
+      else this.respawns.push(now + COLLECTIBLE_RESPAWN);
+    }
+    return placed;
+  }
+
+  // Забирает с поля предметы, которых касается игрок
+  pickUp(player: Position, now: number): Collectible[] {
+    const { playerSize } = this.config;
+    const area = {
+      left: player.x - COLLECTIBLE_SIZE,
+      top: player.y - COLLECTIBLE_SIZE,
+      right: player.x + playerSize,
+      bottom: player.y + playerSize,
+    };
+    const picked: Collectible[] = [];
+    this.grid.query(area, (key) => {
+      const item = this.items.get(Number(key))!;
+      if (overlaps(player, playerSize, item, COLLECTIBLE_SIZE)) picked.push(item);
+    });
+
+    picked.forEach((item) => {
+      this.items.delete(item.id);
+      this.grid.remove(String(item.id));
+      this.respawns.push(now + COLLECTIBLE_RESPAWN);
+    });
+    return picked;
+  }
+
+  // Возвращает на поле предметы, время которых пришло
+  respawnDue(now: number): Collectible[] {
+    const spawned: Collectible[] = [];
+    let due = 0;
+    while (due < this.respawns.length && this.respawns[due] <= now) due++;
+    if (due === 0) return spawned;
+
+    this.respawns.splice(0, due);
+    for (let i = 0; i < due; i++) {
+      const item = this.place();
+      if (item) spawned.push(item);
+      else this.respawns.push(now + COLLECTIBLE_RESPAWN);
+    }
+    return spawned;
+  }
+
+  // Кладёт предмет в случайное свободное место (целые координаты), null — места не нашлось
+  private place(): Collectible | null {
+    const maxX = Math.floor(this.config.fieldWidth - COLLECTIBLE_SIZE);
+    const maxY = Math.floor(this.config.fieldHeight - COLLECTIBLE_SIZE);
+    for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt++) {
+      const position = {
+        x: Math.floor(Math.random() * (maxX + 1)),
+        y: Math.floor(Math.random() * (maxY + 1)),
+      };
+      if (!this.isFree(position)) continue;
+
+      const value = Math.random() < RARE_COLLECTIBLE_CHANCE ? RARE_COLLECTIBLE_VALUE : COLLECTIBLE_VALUE;
+      const item: Collectible = { id: this.nextId++, ...position, value };
+      this.items.set(item.id, item);
+      this.grid.set(String(item.id), item);
+      return item;
+    }
+    return null;
+  }
+
+  private isFree(position: Position): boolean {
+    if (collidesWithWalls(this.map, position, COLLECTIBLE_SIZE)) return false;
+    if (this.isOccupied(position, COLLECTIBLE_SIZE)) return false;
+
+    let free = true;
+    const area = {
+      left: position.x - COLLECTIBLE_SIZE,
+      top: position.y - COLLECTIBLE_SIZE,
+      right: position.x + COLLECTIBLE_SIZE,
+      bottom: position.y + COLLECTIBLE_SIZE,
+    };
+    this.grid.query(area, (key) => {
+      if (overlaps(position, COLLECTIBLE_SIZE, this.items.get(Number(key))!, COLLECTIBLE_SIZE)) free = false;
+    });
+    return free;
+  }
+}
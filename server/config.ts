@@ -0,0 +1,120 @@
+import { existsSync, readFileSync, watchFile } from 'fs';
+import { DEFAULT_GAME_CONFIG, GameConfig, PLAYER_COLLISIONS, PlayerCollision } from '../shared/movement';
+import { TileMap, withWorldSize } from '../shared/map';
+
+// Настройки игры по комнатам. Источник — JSON-файл ROOM_CONFIG_FILE (см. rooms.example.json):
+//   { "default": { "moveSpeed": 0.8 }, "rooms": { "arena": { "playerCollision": "off" } } }
+// Переменные окружения PLAYER_SIZE, MOVE_SPEED и PLAYER_COLLISION переопределяют "default",
+// а настройки, заданные администратором (см. admin.ts), — всё остальное до перезапуска.
+// Размер поля задаёт карта, а не настройки. Файл перечитывается при изменении,
+// и комнаты получают новые настройки без перезапуска сервера.
+
+// Настройки, которые можно задать комнате
+export type RoomSettings = Pick<GameConfig, 'playerSize' | 'moveSpeed' | 'playerCollision'>;
+
+interface SettingsFile {
+  default: Partial<RoomSettings>;
+  rooms: Map<string, Partial<RoomSettings>>;
+}
+
+const EMPTY_FILE: SettingsFile = { default: {}, rooms: new Map() };
+
+// Как часто проверять, не изменился ли файл
+const WATCH_INTERVAL = 1000;
+
+const fromEnv = (): Record<string, unknown> => {
+  const settings: Record<string, unknown> = {};
+  if (process.env.PLAYER_SIZE) settings.playerSize = Number(process.env.PLAYER_SIZE);
+  if (process.env.MOVE_SPEED) settings.moveSpeed = Number(process.env.MOVE_SPEED);
+  if (process.env.PLAYER_COLLISION) settings.playerCollision = process.env.PLAYER_COLLISION;
+  return settings;
+};
+
+// Проверяет, что с настройками игра останется играбельной на этой карте:
+// игрок помещается в тайл и за тик не проскакивает стену. Лишние поля отбрасываются
+export const parseSettings = (value: unknown, map: TileMap, source: string): Partial<RoomSettings> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${source}: settings must be an object`);
+  }
+  const { playerSize, moveSpeed, playerCollision } = value as Partial<Record<keyof RoomSettings, unknown>>;
+  const settings: Partial<RoomSettings> = {};
+  if (playerSize !== undefined) {
+    if (typeof playerSize !== 'number' || !(playerSize > 0 && playerSize <= map.tileSize)) {
+      throw new Error(`${source}: playerSize must be a number in (0, ${map.tileSize}]`);
+    }
+    settings.playerSize = playerSize;
+  }
+  if (moveSpeed !== undefined) {
+    if (typeof moveSpeed !== 'number' || !(moveSpeed > 0 && moveSpeed <= map.tileSize)) {
+      throw new Error(`${source}: moveSpeed must be a number in (0, ${map.tileSize}]`);
+    }
+    settings.moveSpeed = moveSpeed;
+  }
+  if (playerCollision !== undefined) {
+    if (!PLAYER_COLLISIONS.includes(playerCollision as PlayerCollision)) {
+      throw new Error(`${source}: playerCollision must be one of ${PLAYER_COLLISIONS.join(', ')}`);
+    }
+    settings.playerCollision = playerCollision as PlayerCollision;
+  }
+  return settings;
+};
+
+export class GameSettings {
+  private file = EMPTY_FILE;
+  private env: Partial<RoomSettings>;
+  private overrides: Map<string, Partial<RoomSettings>> = new Map();
+
+  // path — файл настроек; если его нет, действуют настройки по умолчанию и окружение
+  constructor(private path: string, private map: TileMap) {
+    this.env = parseSettings(fromEnv(), map, 'environment');
+    if (existsSync(path)) {
+      this.file = this.read();
+      console.log(`Room settings loaded: ${path}`);
+    }
+  }
+
+  // Полная конфигурация комнаты: значения по умолчанию, файл, окружение, настройки комнаты
+  // из файла и от администратора
+  get(room: string): GameConfig {
+    const config = {
+      ...DEFAULT_GAME_CONFIG, ...this.file.default, ...this.env, ...this.file.rooms.get(room), ...this.overrides.get(room),
+    };
+    return withWorldSize(config, this.map);
+  }
+
+  // Настройки комнаты от администратора; ошибки проверки (Error) обрабатывает вызывающий
+  override(room: string, value: unknown) {
+    const settings = parseSettings(value, this.map, `rooms.${room}`);
+    this.overrides.set(room, { ...this.overrides.get(room), ...settings });
+  }
+
+  // Следит за файлом и вызывает onChange после успешного перечитывания.
+  // Ошибочный файл не применяется: остаются прежние настройки
+  watch(onChange: () => void) {
+    watchFile(this.path, { interval: WATCH_INTERVAL }, (current, previous) => {
+      // Файла не было и нет (Node сообщает и об этом)
+      if (current.mtimeMs === 0 && previous.mtimeMs === 0) return;
+      // Файл удалили — возвращаемся к настройкам по умолчанию
+      if (current.mtimeMs === 0) {
+        this.file = EMPTY_FILE;
+      } else {
+        try {
+          this.file = this.read();
+        } catch (error) {
+          console.error(`Failed to reload room settings from ${this.path}:`, (error as Error).message);
+          return;
+        }
+      }
+      console.log(`Room settings reloaded: ${this.path}`);
+      onChange();
+    });
+  }
+
+  private read(): SettingsFile {
+    const file = JSON.parse(readFileSync(this.path, 'utf8')) as { default?: unknown; rooms?: Record<string, unknown> };
+    const rooms = new Map(Object.entries(file.rooms ?? {}).map(([room, settings]) =>
+      [room, parseSettings(settings, this.map, `${this.path} rooms.${room}`)] as const
+    ));
+    return { default: parseSettings(file.default ?? {}, this.map, `${this.path} default`), rooms };
+  }
+}
@@ -0,0 +1,74 @@
+import { Position } from '../shared/movement';
+
+// Равномерная сетка для поиска игроков по области: каждый игрок лежит в ячейке,
+// в которую попадает его левый верхний угол. Запрос перебирает только ячейки,
+// задевающие прямоугольник, поэтому цена не зависит от числа игроков в комнате.
+// Ячейки хранятся в Map и создаются по мере надобности — пустой мир ничего не стоит.
+
+export interface Rect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export class SpatialGrid {
+  private cells: Map<string, Set<string>> = new Map();
+  // Ячейка каждого игрока — чтобы перемещение и удаление не искали его по всей сетке
+  private cellOf: Map<string, string> = new Map();
+
+  constructor(private cellSize: number) {}
+
+  get size(): number {
+    return this.cellOf.size;
+  }
+
+  // Добавляет игрока или переносит его в ячейку по новой позиции
+  set(id: string, position: Position) {
+    const key = this.keyOf(Math.floor(position.x / this.cellSize), Math.floor(position.y / this.cellSize));
+    const current = this.cellOf.get(id);
+    if (current === key) return;
+    if (current !== undefined) this.removeFromCell(id, current);
+
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = new Set();
+      this.cells.set(key, cell);
+    }
+    cell.add(id);
+    this.cellOf.set(id, key);
+  }
+
+  remove(id: string) {
+    const current = this.cellOf.get(id);
+    if (current === undefined) return;
+    this.removeFromCell(id, current);
+    this.cellOf.delete(id);
+  }
+
+  // Игроки из ячеек, задевающих прямоугольник. Результат — надмножество:
+  // точную проверку по позиции делает вызывающий, если она нужна.
+  query(rect: Rect, callback: (id: string) => void) {
+    const firstColumn = Math.floor(rect.left / this.cellSize);
+    const lastColumn = Math.floor(rect.right / this.cellSize);
+    const firstRow = Math.floor(rect.top / this.cellSize);
+    const lastRow = Math.floor(rect.bottom / this.cellSize);
+
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        this.cells.get(this.keyOf(column, row))?.forEach(callback);
+      }
+    }
+  }
+
+  private removeFromCell(id: string, key: string) {
+    const cell = this.cells.get(key);
+    if (!cell) return;
+    cell.delete(id);
+    if (cell.size === 0) this.cells.delete(key);
+  }
+
+  private keyOf(column: number, row: number): string {
+    return `${column}:${row}`;
+  }
+}
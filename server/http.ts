@@ -0,0 +1,48 @@
+import { IncomingMessage, ServerResponse } from 'http';
+
+// Общие части небольших HTTP API сервера (вход, администрирование)
+
+// Ошибка разбора запроса; status — HTTP-код ответа
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Клиент игры обычно открыт с другого адреса (dev-сервер Vite), поэтому нужен CORS
+export const writeJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': process.env.CORS_ORIGIN || '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  });
+  res.end(body === null ? undefined : JSON.stringify(body));
+};
+
+// Тело запроса — JSON-объект не больше maxSize байт
+export const readJsonBody = (req: IncomingMessage, maxSize: number): Promise<Record<string, unknown>> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        reject(new HttpError(413, 'Request body is too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const body: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new Error('not an object');
+        resolve(body as Record<string, unknown>);
+      } catch {
+        reject(new HttpError(400, 'Request body must be a JSON object'));
+      }
+    });
+    req.on('error', reject);
+  });
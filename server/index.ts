@@ -1,97 +1,269 @@
 // --- START OF FILE server/src/index.ts ---
 
-import { WebSocketServer, WebSocket } from 'ws';
-import { createServer } from 'http';
-import { removePlayer } from './supabase';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { Duplex } from 'stream';
+import { randomBytes } from 'crypto';
+import { readFileSync } from 'fs';
+import { createStorage, GameStorage, PlayerChanges, StoredPlayer } from './storage';
+import { DEFAULT_GAME_CONFIG, GameConfig, Position, TICK_INTERVAL } from '../shared/movement';
+import { DEFAULT_ROOM, normalizeRoomName } from '../shared/rooms';
+import { PAINT_COOLDOWN } from '../shared/board';
+import { createTileMap, getMapSize, MapDefinition, TileMap } from '../shared/map';
+import { MAX_ENCODED_POSITION } from '../shared/binary';
+import {
+  AUTH_FAILED_CLOSE_CODE,
+  ClientMessage,
+  HEARTBEAT_INTERVAL,
+  KickReason,
+  MAX_MESSAGE_SIZE,
+  MAX_MISSED_HEARTBEATS,
+  MAX_VIEW_HEIGHT,
+  MAX_VIEW_WIDTH,
+  parseClientMessage,
+  PlayerState,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  ServerMessage,
+  toErrorMessage,
+} from '../shared/protocol';
+import { ClientData, send, sendEncoded } from './messages';
+import { Room } from './room';
+import { DEFAULT_GAME_MODE, GAME_MODES, GameModeName, isGameMode, ScoreEntry } from '../shared/modes';
+import { LEADERBOARD_SIZE } from '../shared/collectibles';
+import { AuthService, VerifiedSession } from './auth';
+import { AccessControl, getClientIp, MessageGuard } from './abuse';
+import { reportViolation, ViolationLog } from './anticheat';
+import { GameSettings } from './config';
+import { AdminApi, AdminCommands, AdminPlayerInfo } from './admin';
+import { GaugeFamily, metrics, withErrorMetrics } from './metrics';
+import { writeJson } from './http';
 import 'dotenv/config';
 
-// Типы сообщений
-type PositionMessage = {
-  type: 'position';
-  payload: { playerId: string; x: number; y: number };
-};
-
-type PlayerJoinedMessage = {
-  type: 'player_joined';
-  payload: { id: string; name: string; color: string; x: number; y: number };
-};
+// Ограничение очереди вводов, чтобы клиент не мог забить память сервера
+const MAX_PENDING_INPUTS = 60;
+const ROOM_CAPACITY = Number(process.env.ROOM_CAPACITY) || 50;
+// Сколько держать игрока в мире после обрыва связи в ожидании переподключения
+const RECONNECT_GRACE_PERIOD = Number(process.env.RECONNECT_GRACE_PERIOD) || 15000;
+// Карта, общая для всех комнат
+const MAP_FILE = process.env.MAP_FILE || 'maps/default.json';
+// Настройки игры по комнатам (см. config.ts); файла может и не быть
+const ROOM_CONFIG_FILE = process.env.ROOM_CONFIG_FILE || 'rooms.json';
+// Как часто сохранять позиции игроков в хранилище
+const POSITION_SAVE_INTERVAL = 5000;
+// Как часто перечитывать таблицу рекордов, если очки менялись
+const LEADERBOARD_REFRESH_INTERVAL = 2000;
+// Сколько соединений (включая лобби) допускается с одного адреса
+const MAX_CONNECTIONS_PER_IP = Number(process.env.MAX_CONNECTIONS_PER_IP) || 10;
+// На сколько банить отключённого за нарушения
+const BAN_DURATION = Number(process.env.BAN_DURATION) || 5 * 60 * 1000;
+// Код закрытия WebSocket при отключении сервером (диапазон 4000+ — для приложений)
+const KICK_CLOSE_CODE = 4000;
+// Сервер не готов принимать игроков, если тик не выполнялся дольше этого (цикл событий завис)
+const MAX_TICK_DELAY = 1000;
 
-type PlayerLeftMessage = {
-  type: 'player_left';
-  payload: { playerId: string };
-};
+type Session = Pick<ClientData, 'handshakeDone' | 'encoding' | 'guard'>;
 
-type GameStateMessage = {
-  type: 'game_state';
-  payload: {
-    players: Array<{ id: string; name: string; color: string; x: number; y: number }>;
-  };
+const resolveDefaultMode = (mode: string | undefined): GameModeName => {
+  if (!mode) return DEFAULT_GAME_MODE;
+  if (!isGameMode(mode)) {
+    throw new Error(`Unknown GAME_MODE "${mode}" (expected ${GAME_MODES.join(', ')})`);
+  }
+  return mode;
 };
 
-type GameMessage = PositionMessage | PlayerJoinedMessage | PlayerLeftMessage | GameStateMessage;
-
-// Интерфейс для хранения данных о клиенте на сервере
-interface ClientData {
-  ws: WebSocket;
-  // Данные об игроке становятся доступны после сообщения 'player_joined'
-  playerData?: { id: string; name: string; color: string; x: number; y: number; };
-}
+// Режим новых комнат по умолчанию (и режим основной комнаты)
+const DEFAULT_MODE = resolveDefaultMode(process.env.GAME_MODE);
 
 // Класс для управления игровым сервером
-class GameServer {
+class GameServer implements AdminCommands {
   private wss: WebSocketServer;
   private clients: Map<string, ClientData> = new Map(); 
+  private rooms: Map<string, Room> = new Map();
+  private clientRooms: Map<string, Room> = new Map();
+  private settings: GameSettings;
+  private map: TileMap;
+  // Сквозной счётчик тиков: общий для всех комнат, чтобы номера снимков не повторялись
+  private tickCount = 0;
+  private heartbeatSeq = 0;
+  // Последняя прочитанная из хранилища таблица рекордов — её получают вошедшие игроки
+  private leaderboard: ScoreEntry[] = [];
+  private leaderboardDirty = true;
+  private auth: AuthService;
+  private admin: AdminApi;
+  private access = new AccessControl(MAX_CONNECTIONS_PER_IP, BAN_DURATION);
+  // Для /readyz: сервер слушает порт и тик идёт без задержек
+  private listening = false;
+  private lastTickAt = Date.now();
+  private startedAt = Date.now();
+
+  constructor(port: number, private storage: GameStorage) {
+    this.map = loadMap(MAP_FILE, DEFAULT_GAME_CONFIG);
+    this.settings = new GameSettings(ROOM_CONFIG_FILE, this.map);
+    // Изменённый файл настроек применяется к существующим комнатам без перезапуска
+    this.settings.watch(() => this.rooms.forEach(room => room.setConfig(this.settings.get(room.name))));
+    this.auth = new AuthService(storage);
+    this.admin = new AdminApi(this);
+    const server = createServer(this.handleHttp.bind(this));
+    // Соединение принимаем сами: токен сессии проверяется до перехода на WebSocket
+    // Кадры больше MAX_MESSAGE_SIZE ws отвергает сам, закрывая соединение
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_SIZE });
+    server.on('upgrade', this.handleUpgrade.bind(this));
 
-  constructor(port: number) {
-    const server = createServer();
-    this.wss = new WebSocketServer({ server });
+    // Комната по умолчанию существует всегда, даже пустая
+    this.getOrCreateRoom(DEFAULT_ROOM);
 
-    this.wss.on('connection', this.handleConnection.bind(this));
+    // Фиксированный тик симуляции: сервер — единственный источник истины о позициях
+    setInterval(this.tick.bind(this), TICK_INTERVAL);
+    setInterval(this.heartbeat.bind(this), HEARTBEAT_INTERVAL);
+    setInterval(this.savePositions.bind(this), POSITION_SAVE_INTERVAL);
+    setInterval(this.refreshLeaderboard.bind(this), LEADERBOARD_REFRESH_INTERVAL);
+    this.refreshLeaderboard();
 
     server.listen(port, () => {
+      this.listening = true;
       console.log(`Game server is running on port ${port}`);
     });
   }
 
-  private handleConnection(ws: WebSocket, req: any) {
-    // Получаем ID клиента из URL-параметров
-    const url = new URL(req.url, `http://${req.headers.host}`);
-    const clientId = url.searchParams.get('playerId');
+  // HTTP нужен для входа (см. auth.ts), администрирования (см. admin.ts) и наблюдения
+  // за сервером (проверки балансировщика, метрики, состояние); игра идёт через WebSocket
+  private handleHttp(req: IncomingMessage, res: ServerResponse) {
+    const { pathname } = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    switch (pathname) {
+      // Процесс жив и отвечает
+      case '/healthz':
+        writeJson(res, 200, { status: 'ok' });
+        return;
+      // Можно направлять игроков: порт слушается, симуляция не отстаёт
+      case '/readyz': {
+        const ready = this.listening && Date.now() - this.lastTickAt < MAX_TICK_DELAY;
+        writeJson(res, ready ? 200 : 503, { status: ready ? 'ready' : 'not_ready' });
+        return;
+      }
+      case '/metrics':
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+        res.end(metrics.render(this.collectGauges()));
+        return;
+      case '/status':
+        writeJson(res, 200, this.getStatus());
+        return;
+    }
+    if (pathname.startsWith('/auth/')) {
+      this.auth.handleRequest(req, res, pathname);
+      return;
+    }
+    if (pathname.startsWith('/admin/')) {
+      this.admin.handleRequest(req, res, pathname);
+      return;
+    }
+    res.writeHead(404).end();
+  }
+
+  // Токен сессии приходит параметром token: браузер не даёт задать заголовки WebSocket.
+  // Без токена соединение может только запрашивать список комнат (экран выбора комнаты).
+  // Соединения забаненных и сверх лимита соединений с одного адреса отклоняются ещё
+  // до перехода на WebSocket, а с недействительным токеном — закрываются сразу после него
+  // с кодом AUTH_FAILED_CLOSE_CODE, чтобы клиент понял, что нужно войти заново.
+  private handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer) {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    const ip = getClientIp(req);
+    const token = url.searchParams.get('token');
+    const session = token ? this.auth.verify(token) : null;
+    if (this.access.bannedFor(ip, session?.playerId, Date.now()) > 0) {
+      rejectUpgrade(socket, '403 Forbidden');
+      return;
+    }
+    if (!this.access.canConnect(ip)) {
+      console.warn(`Too many connections from ${ip}. Rejecting.`);
+      rejectUpgrade(socket, '429 Too Many Requests');
+      return;
+    }
+    if (token && !session) {
+      this.wss.handleUpgrade(req, socket, head, (ws) => ws.close(AUTH_FAILED_CLOSE_CODE, 'Invalid or expired session'));
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      this.access.connectionOpened(ip);
+      ws.on('close', () => this.access.connectionClosed(ip));
+      this.handleConnection(ws, url, session, new MessageGuard(ip, session?.playerId, Date.now()));
+    });
+  }
+
+  private handleConnection(ws: WebSocket, url: URL, session: VerifiedSession | null, guard: MessageGuard) {
+    if (!session) {
+      this.handleLobbyConnection(ws, guard);
+      return;
+    }
+    // Идентификатор игрока — из проверенного токена, а не из параметров клиента
+    const clientId = session.playerId;
+
+    // Игрок с таким id уже есть: это либо возобновление сессии, либо попытка выдать себя за другого
+    const existing = this.clients.get(clientId);
+    if (existing) {
+      const resumeToken = url.searchParams.get('resume');
+      if (!resumeToken || resumeToken !== existing.resumeToken) {
+        console.warn(`Rejecting duplicate connection for ${clientId}.`);
+        send(ws, { type: 'error', payload: { code: 'session_conflict', message: 'Player is already connected' } });
+        ws.close();
+        return;
+      }
+      this.resumeSession(clientId, existing, ws, guard);
+      return;
+    }
 
-    if (!clientId) {
-      console.error('Connection attempt without playerId. Closing connection.');
+    const requestedMode = url.searchParams.get('mode');
+    const mode = requestedMode && isGameMode(requestedMode) ? requestedMode : undefined;
+    const room = this.getOrCreateRoom(normalizeRoomName(url.searchParams.get('room')), mode);
+    if (room.isFull()) {
+      console.warn(`Room ${room.name} is full. Rejecting ${clientId}.`);
+      send(ws, { type: 'error', payload: { code: 'room_full', message: `Room ${room.name} is full` } });
       ws.close();
       return;
     }
 
-    console.log(`Client connected: ${clientId}`);
+    console.log(`Client connected: ${clientId} (${session.username}, room ${room.name})`);
 
     // Сразу сохраняем WebSocket соединение клиента.
     // Не отправляем состояние игры, ждем 'player_joined' от клиента.
-    this.clients.set(clientId, { ws });
+    const client: ClientData = {
+      ws,
+      handshakeDone: false,
+      encoding: 'json',
+      pendingInputs: [],
+      lastProcessedInput: 0,
+      inputCredit: 0,
+      changedTick: 0,
+      ackedTick: 0,
+      minAckTick: 0,
+      missedHeartbeats: 0,
+      guard,
+      violations: new ViolationLog(),
+      lastPaintAt: 0,
+      // Пока клиент не сообщил размер экрана, считаем область максимальной
+      viewport: { width: MAX_VIEW_WIDTH, height: MAX_VIEW_HEIGHT },
+      inView: new Set(),
+    };
+    this.clients.set(clientId, client);
+    this.clientRooms.set(clientId, room);
+    room.addClient(clientId, client);
+    this.attachSocket(clientId, client, ws);
+  }
 
-    ws.on('message', (data) => {
-      try {
-        const message = JSON.parse(data.toString());
+  private attachSocket(clientId: string, client: ClientData, ws: WebSocket) {
+    ws.on('message', (data, isBinary) => {
+      const message = this.parseIncoming(ws, data, isBinary, client);
+      if (message) {
         this.handleMessage(clientId, message);
-      } catch (error) {
-        console.error('Error parsing message:', error);
       }
     });
 
-    ws.on('close', async () => {
+    ws.on('close', () => {
+      // Сокет уже заменён новым соединением той же сессии
+      if (client.ws !== ws) return;
       console.log(`Client disconnected: ${clientId}`);
-      this.clients.delete(clientId);
-      
-      // Оповещаем всех остальных, что игрок ушел
-      const playerLeftMessage: PlayerLeftMessage = {
-        type: 'player_left',
-        payload: { playerId: clientId },
-      };
-      this.broadcast(playerLeftMessage, clientId);
-      
-      // Надежное удаление из БД на сервере
-      await removePlayer(clientId);
+      this.handleDisconnect(clientId, client);
     });
 
     ws.on('error', (error) => {
@@ -99,60 +271,585 @@ class GameServer {
     });
   }
 
-  private handleMessage(senderId: string, message: GameMessage) {
-    console.log(`Received message from ${senderId} of type ${message.type}`);
+  // Зарегистрированный игрок не исчезает сразу: он остаётся в мире со статусом
+  // 'reconnecting', пока не истечёт период ожидания
+  private handleDisconnect(clientId: string, client: ClientData) {
+    // Игрок уже удалён (например, вышел сам через 'leave')
+    if (this.clients.get(clientId) !== client) return;
+
+    if (!client.playerData || !client.resumeToken) {
+      this.removeClient(clientId);
+      return;
+    }
+
+    client.pendingInputs = [];
+    this.clientRooms.get(clientId)?.setPlayerStatus(clientId, client, 'reconnecting');
+    client.graceTimer = setTimeout(() => {
+      console.log(`Grace period expired for ${clientId}`);
+      this.removeClient(clientId);
+    }, RECONNECT_GRACE_PERIOD);
+  }
+
+  private resumeSession(clientId: string, client: ClientData, ws: WebSocket, guard: MessageGuard) {
+    console.log(`Resuming session for ${clientId}`);
+    clearTimeout(client.graceTimer);
+    client.graceTimer = undefined;
+
+    // Старое соединение могло ещё не закрыться (сервер не заметил обрыв) — закрываем его сами
+    const previous = client.ws;
+    client.ws = ws;
+    client.guard = guard;
+    client.handshakeDone = false;
+    client.encoding = 'json';
+    client.pendingInputs = [];
+    client.pendingPing = undefined;
+    client.missedHeartbeats = 0;
+    previous.terminate();
+
+    this.attachSocket(clientId, client, ws);
+    // Состояние комнаты отправим после 'player_joined', когда клиент будет готов его принять
+  }
+
+  private removeClient(clientId: string) {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+    clearTimeout(client.graceTimer);
+    this.clients.delete(clientId);
+    this.leaveRoom(clientId);
+
+    // Профиль остаётся: запоминаем, где игрок был, чтобы вернуть его туда при следующем входе
+    if (client.playerData) {
+      const { x, y } = client.playerData;
+      this.storage.updatePlayer(clientId, { x, y })
+        .catch(error => console.error(`Failed to save position of ${clientId}:`, error));
+    }
+  }
+
+  // Первый вход игрока за сессию. Имя, цвет и место берём из профиля, а если его ещё нет —
+  // имя и цвет из 'player_joined' (id и координаты клиента игнорируем: id определяется
+  // токеном сессии, точку появления и handle выдаёт комната) и заводим профиль.
+  private async registerPlayer(clientId: string, client: ClientData, requested: { name: string; color: string }) {
+    if (client.loadingProfile) return;
+    client.loadingProfile = true;
+    let profile: StoredPlayer | null = null;
+    let loaded = true;
+    try {
+      profile = await this.storage.getPlayer(clientId);
+    } catch (error) {
+      loaded = false;
+      console.error(`Failed to load profile of ${clientId}:`, error);
+    }
+    client.loadingProfile = false;
+    // Пока профиль загружался, клиент мог уйти
+    if (this.clients.get(clientId) !== client || client.playerData) return;
+
+    const name = profile?.name ?? (requested.name.trim() || clientId.slice(0, 8));
+    const color = profile?.color ?? requested.color;
+    client.playerData = { id: clientId, handle: 0, name, color, x: 0, y: 0, status: 'connected' };
+    console.log(`Player data for ${clientId} registered:`, name, profile ? '(profile restored)' : '(new profile)');
+    this.clientRooms.get(clientId)?.spawnPlayer(clientId, client, profile ?? undefined);
+    this.issueSessionToken(client);
+    this.sendScores(clientId, client);
+
+    const { x, y } = client.playerData;
+    client.savedPosition = { x, y };
+    // Если профиль не удалось прочитать, не затираем его значениями по умолчанию
+    if (!loaded) return;
+    const saved = profile
+      ? this.storage.updatePlayer(clientId, { x, y })
+      : this.storage.addPlayer({ id: clientId, name, color, x, y });
+    saved.catch(error => console.error(`Failed to store player ${clientId}:`, error));
+  }
+
+  // Пишем только тех, кто сдвинулся с последнего сохранения
+  private savePositions() {
+    this.clients.forEach((client, clientId) => {
+      const player = client.playerData;
+      if (!player) return;
+      if (client.savedPosition?.x === player.x && client.savedPosition?.y === player.y) return;
+
+      client.savedPosition = { x: player.x, y: player.y };
+      this.storage.updatePlayer(clientId, client.savedPosition)
+        .catch(error => console.error(`Failed to save position of ${clientId}:`, error));
+    });
+  }
+
+  // Очки за предметы копятся в хранилище по id игрока; итог сообщаем самому игроку
+  private recordScore(player: PlayerState, points: number) {
+    this.storage.addScore(player.id, player.name, points)
+      .then((total) => {
+        this.leaderboardDirty = true;
+        const client = this.clients.get(player.id);
+        if (client) send(client.ws, { type: 'total_score', payload: { total } });
+      })
+      .catch(error => console.error(`Failed to save score of ${player.id}:`, error));
+  }
+
+  // Таблица общая для всех комнат, поэтому рассылается всем игрокам сервера
+  private refreshLeaderboard() {
+    if (!this.leaderboardDirty) return;
+    this.leaderboardDirty = false;
+    this.storage.getLeaderboard(LEADERBOARD_SIZE)
+      .then((entries) => {
+        this.leaderboard = entries.map(({ playerId, name, score }) => ({ playerId, name, score }));
+        this.sendToAllPlayers({ type: 'leaderboard', payload: { entries: this.leaderboard } });
+      })
+      .catch((error) => {
+        this.leaderboardDirty = true;
+        console.error('Failed to load leaderboard:', error);
+      });
+  }
+
+  // Вошедший игрок получает таблицу рекордов и свой итог за всё время
+  private sendScores(clientId: string, client: ClientData) {
+    send(client.ws, { type: 'leaderboard', payload: { entries: this.leaderboard } });
+    this.storage.getScore(clientId)
+      .then(total => send(client.ws, { type: 'total_score', payload: { total } }))
+      .catch(error => console.error(`Failed to load score of ${clientId}:`, error));
+  }
+
+  private issueSessionToken(client: ClientData) {
+    client.resumeToken = randomBytes(24).toString('base64url');
+    send(client.ws, {
+      type: 'session',
+      payload: { resumeToken: client.resumeToken, gracePeriod: RECONNECT_GRACE_PERIOD },
+    });
+  }
+
+  private handleLobbyConnection(ws: WebSocket, guard: MessageGuard) {
+    const session: Session = { handshakeDone: false, encoding: 'json', guard };
+    ws.on('message', (data, isBinary) => {
+      const message = this.parseIncoming(ws, data, isBinary, session);
+      if (message?.type === 'list_rooms') {
+        this.sendRoomList(ws);
+      }
+    });
+    // Без обработчика ошибка сокета (например, слишком большой кадр) уронила бы процесс
+    ws.on('error', (error) => {
+      console.warn('Lobby connection error:', error.message);
+    });
+  }
+
+  // Разбирает входящий кадр: проверяет лимиты, размер, формат и рукопожатие.
+  // При ошибке отправляет отправителю типизированное 'error' и возвращает null.
+  // Сообщения сверх лимитов отбрасываются и засчитываются как нарушения.
+  private parseIncoming(ws: WebSocket, data: RawData, isBinary: boolean, session: Session): ClientMessage | null {
+    const now = Date.now();
+    metrics.frameReceived(getFrameSize(data));
+    if (!session.guard.allowFrame(now)) {
+      metrics.messageRejected('frame_rate');
+      this.recordStrike(ws, session, 'frames', 'flooding', now);
+      return null;
+    }
+
+    let message: ClientMessage;
+    try {
+      // Бинарные кадры идут только от сервера к клиенту
+      if (isBinary) {
+        throw new ProtocolError('invalid_message', 'binary frames are not accepted from clients');
+      }
+      message = parseClientMessage(data.toString());
+    } catch (error) {
+      metrics.messageRejected('invalid');
+      send(ws, toErrorMessage(error));
+      this.recordStrike(ws, session, 'invalid', 'invalid_messages', now);
+      return null;
+    }
+
+    metrics.messageReceived(message.type);
+    if (!session.guard.allow(message.type, now)) {
+      metrics.messageRejected('rate_limited');
+      // Область видимости клиент шлёт при ресайзе и зуме; лишние просто отбрасываем,
+      // не наказывая — следующее сообщение всё равно принесёт актуальное значение
+      if (message.type === 'viewport') return null;
+      if (this.recordStrike(ws, session, message.type, 'flooding', now)) {
+        send(ws, { type: 'error', payload: { code: 'rate_limited', message: `Too many ${message.type} messages, slow down` } });
+      }
+      return null;
+    }
+
+    if (message.type === 'hello') {
+      if (message.payload.version !== PROTOCOL_VERSION) {
+        send(ws, {
+          type: 'error',
+          payload: { code: 'unsupported_version', message: `Server speaks protocol version ${PROTOCOL_VERSION}` },
+        });
+        ws.close();
+        return null;
+      }
+      session.handshakeDone = true;
+      // Берём первую кодировку из списка клиента; по умолчанию — JSON
+      session.encoding = message.payload.encodings?.[0] ?? 'json';
+      send(ws, { type: 'welcome', payload: { version: PROTOCOL_VERSION, encoding: session.encoding } });
+      return null;
+    }
+
+    if (!session.handshakeDone) {
+      send(ws, { type: 'error', payload: { code: 'handshake_required', message: 'Send hello first' } });
+      return null;
+    }
+    return message;
+  }
+
+  // Засчитывает нарушение; набравшего слишком много отключает и банит.
+  // true — нарушение засчитано и клиент ещё подключён (ему стоит сообщить об ошибке)
+  private recordStrike(ws: WebSocket, session: Session, kind: string, reason: KickReason, now: number): boolean {
+    const result = session.guard.strike(kind, now);
+    if (result === 'kick') {
+      this.kick(ws, session, reason, reason === 'flooding' ? 'Too many messages' : 'Too many invalid messages', BAN_DURATION);
+      return false;
+    }
+    return result === 'counted';
+  }
+
+  // Отключает клиента и банит его на banDuration мс (0 — без бана)
+  private kick(ws: WebSocket, session: Session, reason: KickReason, message: string, banDuration: number) {
+    const { ip, playerId } = session.guard;
+    if (banDuration > 0) this.access.ban(ip, playerId, Date.now(), banDuration);
+    console.warn(`Kicking ${playerId ?? 'lobby connection'} (${ip}): ${reason}, ${message}`);
+    send(ws, { type: 'kicked', payload: { reason, message, retryAfter: banDuration > 0 ? banDuration : undefined } });
+    // Отключённый не ждёт переподключения: убираем его из мира сразу
+    if (playerId && this.clients.get(playerId)?.ws === ws) this.removeClient(playerId);
+    ws.close(KICK_CLOSE_CODE, reason);
+  }
+
+  private handleMessage(senderId: string, message: ClientMessage) {
     const client = this.clients.get(senderId);
     if (!client) return;
 
     switch (message.type) {
-      case 'player_joined':
-        // 1. Сохраняем полные данные об игроке на сервере.
-        client.playerData = message.payload;
-        console.log(`Player data for ${senderId} registered:`, client.playerData.name);
-
-        // 2. Отправляем ПОЛНОЕ состояние игры ТОЛЬКО этому новому клиенту.
-        // Это гарантирует, что он получит список всех, включая себя.
-        const allPlayers = Array.from(this.clients.values())
-                              .filter(c => c.playerData) // Убеждаемся, что данные игрока существуют
-                              .map(c => c.playerData!);
-                              
-        const gameStateMessage: GameStateMessage = {
-          type: 'game_state',
-          payload: { players: allPlayers },
+      case 'player_joined': {
+        // Возобновлённая сессия: игрок уже в мире, имя и позицию берём с сервера
+        if (client.playerData) {
+          this.clientRooms.get(senderId)?.resumePlayer(senderId, client);
+          this.issueSessionToken(client);
+          this.sendScores(senderId, client);
+          break;
+        }
+
+        this.registerPlayer(senderId, client, message.payload);
+        break;
+      }
+
+      case 'update_player': {
+        if (!client.playerData) break;
+        const changes: PlayerChanges = {};
+        const name = message.payload.name?.trim();
+        if (name) changes.name = name;
+        if (message.payload.color) changes.color = message.payload.color;
+        if (!changes.name && !changes.color) break;
+
+        this.clientRooms.get(senderId)?.updatePlayer(senderId, client, changes);
+        this.storage.updatePlayer(senderId, changes)
+          .catch(error => console.error(`Failed to save profile of ${senderId}:`, error));
+        break;
+      }
+
+      case 'join_room': {
+        const target = normalizeRoomName(message.payload.room);
+        const current = this.clientRooms.get(senderId);
+        if (current?.name === target) break;
+
+        const room = this.getOrCreateRoom(target, message.payload.mode);
+        if (room.isFull()) {
+          send(client.ws, { type: 'error', payload: { code: 'room_full', message: `Room ${room.name} is full` } });
+          break;
+        }
+
+        this.leaveRoom(senderId);
+        this.clientRooms.set(senderId, room);
+        room.addClient(senderId, client);
+        console.log(`Client ${senderId} moved to room ${room.name}`);
+        break;
+      }
+
+      case 'list_rooms':
+        this.sendRoomList(client.ws);
+        break;
+
+      case 'request_game_state':
+        this.clientRooms.get(senderId)?.sendGameState(client);
+        break;
+
+      case 'input': {
+        // Клиент присылает только намерения; позицию считает сервер на тике.
+        // Очередь переполняется, когда вводы приходят быстрее реального времени:
+        // лишние отбрасываем, а клиента возвращаем на серверную позицию
+        for (const input of message.payload.inputs) {
+          if (input.seq <= client.lastProcessedInput) continue;
+          if (client.pendingInputs.length >= MAX_PENDING_INPUTS) {
+            reportViolation(client, 'input_flood', `more than ${MAX_PENDING_INPUTS} inputs queued`);
+            break;
+          }
+          client.pendingInputs.push(input);
+        }
+        break;
+      }
+
+      case 'chat': {
+        const text = message.payload.text.trim();
+        if (!client.playerData || !text) break;
+        const mutedFor = this.access.mutedFor(senderId, Date.now());
+        if (mutedFor > 0) {
+          const minutes = Math.ceil(mutedFor / 60_000);
+          send(client.ws, { type: 'error', payload: { code: 'muted', message: `You are muted for ${minutes} more min` } });
+          break;
+        }
+        this.clientRooms.get(senderId)?.chat(client, message.payload.channel, text);
+        break;
+      }
+
+      case 'mode_action':
+        // Правила режима живут в самом режиме; сервер только доставляет действие
+        try {
+          this.clientRooms.get(senderId)?.handleModeAction(senderId, message.payload.action, message.payload.data);
+        } catch (error) {
+          send(client.ws, toErrorMessage(error));
+        }
+        break;
+
+      case 'paint': {
+        if (!client.playerData) break;
+        const now = Date.now();
+        if (now - client.lastPaintAt < PAINT_COOLDOWN) {
+          send(client.ws, { type: 'error', payload: { code: 'rate_limited', message: 'Painting is on cooldown' } });
+          break;
+        }
+        if (this.clientRooms.get(senderId)?.paint(message.payload)) {
+          client.lastPaintAt = now;
+        } else {
+          send(client.ws, { type: 'error', payload: { code: 'invalid_message', message: 'Pixel is outside the board' } });
+        }
+        break;
+      }
+
+      case 'viewport':
+        client.viewport = {
+          width: Math.min(MAX_VIEW_WIDTH, Math.max(1, message.payload.width)),
+          height: Math.min(MAX_VIEW_HEIGHT, Math.max(1, message.payload.height)),
         };
-        client.ws.send(JSON.stringify(gameStateMessage));
-        console.log(`Sent initial game_state to ${senderId}`);
-        
-        // 3. Транслируем событие о присоединении ВСЕМ ОСТАЛЬНЫМ клиентам.
-        this.broadcast(message, senderId);
-        console.log(`Broadcasted player_joined for ${senderId} to other clients`);
         break;
 
-      case 'position':
-        if (client.playerData) {
-          // Обновляем позицию на сервере для консистентности
-          client.playerData.x = message.payload.x;
-          client.playerData.y = message.payload.y;
-          // Транслируем всем остальным
-          this.broadcast(message, senderId);
+      case 'pong':
+        if (client.pendingPing?.seq === message.payload.seq) {
+          client.rtt = Date.now() - client.pendingPing.sentAt;
+          client.pendingPing = undefined;
+          client.missedHeartbeats = 0;
         }
         break;
 
-      default:
-        // Используем as any для доступа к message.type для логирования
-        console.warn(`Unknown message type from ${senderId}:`, (message as any).type);
+      case 'leave':
+        this.removeClient(senderId);
+        client.ws.close();
+        break;
+
+      case 'snapshot_ack':
+        this.clientRooms.get(senderId)?.acknowledgeSnapshot(client, message.payload.tick);
+        break;
+
+      case 'error':
+        console.warn(`Client ${senderId} reported a protocol error:`, message.payload);
+        break;
+
+      case 'hello':
+        // Рукопожатие уже обработано в parseIncoming
+        break;
     }
   }
 
-  private broadcast(message: GameMessage, excludeClientId?: string) {
-    const messageStr = JSON.stringify(message);
+  // mode учитывается только при создании комнаты: режим существующей не меняется
+  private getOrCreateRoom(name: string, mode: GameModeName = DEFAULT_MODE): Room {
+    let room = this.rooms.get(name);
+    if (!room) {
+      room = new Room(name, ROOM_CAPACITY, this.settings.get(name), this.map, mode, this.recordScore.bind(this));
+      this.rooms.set(name, room);
+      console.log(`Room created: ${name} (${mode})`);
+    }
+    return room;
+  }
+
+  private leaveRoom(clientId: string) {
+    const room = this.clientRooms.get(clientId);
+    if (!room) return;
+    room.removeClient(clientId);
+    this.clientRooms.delete(clientId);
+
+    // Пустые комнаты удаляем, кроме комнаты по умолчанию
+    if (room.size === 0 && room.name !== DEFAULT_ROOM) {
+      this.rooms.delete(room.name);
+      console.log(`Room removed: ${room.name}`);
+    }
+  }
+
+  private sendRoomList(ws: WebSocket) {
+    const rooms = Array.from(this.rooms.values()).map(room => room.getInfo());
+    send(ws, { type: 'room_list', payload: { rooms } });
+  }
+
+  // Пингуем клиентов и обрываем полуоткрытые соединения, которые перестали отвечать.
+  // Обрыв запускает обычный путь отключения с периодом ожидания переподключения.
+  private heartbeat() {
+    const now = Date.now();
+    const seq = ++this.heartbeatSeq;
     this.clients.forEach((client, clientId) => {
-      if (clientId !== excludeClientId && client.ws.readyState === WebSocket.OPEN) {
-        client.ws.send(messageStr);
+      if (!client.handshakeDone || client.ws.readyState !== WebSocket.OPEN) return;
+
+      if (client.pendingPing) {
+        client.missedHeartbeats++;
+        if (client.missedHeartbeats >= MAX_MISSED_HEARTBEATS) {
+          console.warn(`Client ${clientId} missed ${client.missedHeartbeats} heartbeats. Terminating.`);
+          client.ws.terminate();
+          return;
+        }
       }
+
+      client.pendingPing = { seq, sentAt: now };
+      send(client.ws, { type: 'ping', payload: { seq } });
     });
+
+    this.rooms.forEach(room => room.broadcastLatency());
+  }
+
+  // --- Команды администратора (см. admin.ts) ---
+
+  listPlayers(): AdminPlayerInfo[] {
+    const now = Date.now();
+    return Array.from(this.clients.entries()).flatMap(([clientId, client]) => {
+      const player = client.playerData;
+      if (!player) return [];
+      const mutedFor = this.access.mutedFor(clientId, now);
+      return [{
+        id: clientId,
+        name: player.name,
+        room: this.clientRooms.get(clientId)?.name ?? '',
+        x: player.x,
+        y: player.y,
+        status: player.status,
+        ip: client.guard.ip,
+        rtt: client.rtt,
+        mutedUntil: mutedFor > 0 ? now + mutedFor : undefined,
+        violations: client.violations.count,
+      }];
+    });
+  }
+
+  listViolations() {
+    return Array.from(this.clients.entries())
+      .filter(([, client]) => client.violations.count > 0)
+      .map(([playerId, client]) => ({ playerId, violations: client.violations.list() }));
+  }
+
+  kickPlayer(playerId: string, message: string): boolean {
+    return this.banPlayer(playerId, 0, message);
+  }
+
+  banPlayer(playerId: string, duration: number = BAN_DURATION, message: string): boolean {
+    const client = this.clients.get(playerId);
+    if (!client) return false;
+    this.kick(client.ws, client, 'admin', message, duration);
+    return true;
+  }
+
+  mutePlayer(playerId: string, duration: number): boolean {
+    if (!this.clients.has(playerId)) return false;
+    this.access.mute(playerId, Date.now(), duration);
+    return true;
+  }
+
+  teleportPlayer(playerId: string, position: Position): boolean | 'blocked' {
+    const room = this.clientRooms.get(playerId);
+    if (!room || !this.clients.get(playerId)?.playerData) return false;
+    return room.teleportPlayer(playerId, position) || 'blocked';
+  }
+
+  // Объявление получают все игроки сервера, во всех комнатах
+  announce(text: string) {
+    this.sendToAllPlayers({ type: 'announcement', payload: { text } });
+  }
+
+  setRoomConfig(name: string, settings: unknown): GameConfig | null {
+    const room = this.rooms.get(normalizeRoomName(name));
+    if (!room) return null;
+    this.settings.override(room.name, settings);
+    room.setConfig(this.settings.get(room.name));
+    return room.getConfig();
+  }
+
+  private sendToAllPlayers(message: ServerMessage) {
+    const data = JSON.stringify(message);
+    let recipients = 0;
+    this.clients.forEach((client) => {
+      if (!client.playerData || client.ws.readyState !== WebSocket.OPEN) return;
+      sendEncoded(client.ws, message.type, data);
+      recipients++;
+    });
+    metrics.broadcast(recipients);
+  }
+
+  // Текущие значения для /metrics
+  private collectGauges(): GaugeFamily[] {
+    const players = Array.from(this.clients.values()).filter(client => client.playerData);
+    const reconnecting = players.filter(client => client.playerData!.status === 'reconnecting').length;
+    return [
+      { name: 'game_connections', help: 'Open WebSocket connections, including the room picker', samples: [{ value: this.wss.clients.size }] },
+      {
+        name: 'game_players',
+        help: 'Players in the world by connection status',
+        samples: [
+          { labels: { status: 'connected' }, value: players.length - reconnecting },
+          { labels: { status: 'reconnecting' }, value: reconnecting },
+        ],
+      },
+      {
+        name: 'game_room_players',
+        help: 'Clients in each room',
+        samples: Array.from(this.rooms.values(), room => ({ labels: { room: room.name }, value: room.size })),
+      },
+      { name: 'game_rooms', help: 'Open rooms', samples: [{ value: this.rooms.size }] },
+      { name: 'game_uptime_seconds', help: 'Seconds since the server started', samples: [{ value: (Date.now() - this.startedAt) / 1000 }] },
+    ];
+  }
+
+  // Состояние для /status: комнаты и число игроков
+  private getStatus() {
+    const rooms = Array.from(this.rooms.values(), room => room.getInfo());
+    return {
+      protocolVersion: PROTOCOL_VERSION,
+      uptime: Math.floor((Date.now() - this.startedAt) / 1000),
+      connections: this.wss.clients.size,
+      players: rooms.reduce((total, room) => total + room.players, 0),
+      rooms,
+    };
+  }
+
+  private tick() {
+    const startedAt = performance.now();
+    this.lastTickAt = Date.now();
+    this.tickCount++;
+    this.rooms.forEach(room => room.tick(this.tickCount));
+    metrics.tick((performance.now() - startedAt) / 1000);
   }
 }
 
+const getFrameSize = (data: RawData): number =>
+  Array.isArray(data) ? data.reduce((total, chunk) => total + chunk.length, 0) : data.byteLength;
+
+const rejectUpgrade = (socket: Duplex, status: string) => {
+  socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+};
+
+const loadMap = (path: string, config: GameConfig): TileMap => {
+  const definition = JSON.parse(readFileSync(path, 'utf8')) as MapDefinition;
+  const map = createTileMap(definition, config);
+  const { width, height } = getMapSize(definition);
+  // Бинарные снимки не передают координаты дальше MAX_ENCODED_POSITION — игроки
+  // у дальнего края такой карты «прилипали» бы к границе у клиентов
+  if (width > MAX_ENCODED_POSITION || height > MAX_ENCODED_POSITION) {
+    throw new Error(`Map ${map.name} is ${width}x${height} units, binary snapshots support at most ${MAX_ENCODED_POSITION} units per axis`);
+  }
+  console.log(`Map loaded: ${map.name} (${map.columns}x${map.rows} tiles, ${width}x${height} units, ${map.spawns.length} spawns)`);
+  return map;
+};
+
 const PORT = Number(process.env.PORT) || 3001;
-new GameServer(PORT);
\ No newline at end of file
+new GameServer(PORT, withErrorMetrics(createStorage()));
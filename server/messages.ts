@@ -0,0 +1,61 @@
+import { WebSocket } from 'ws';
+import { MovementInput, Position } from '../shared/movement';
+import { PlayerState, ServerMessage, WireEncoding } from '../shared/protocol';
+import { MessageGuard } from './abuse';
+import { ViolationLog } from './anticheat';
+import { metrics } from './metrics';
+
+// Интерфейс для хранения данных о клиенте на сервере
+export interface ClientData {
+  ws: WebSocket;
+  // Клиент прислал 'hello' с поддерживаемой версией протокола
+  handshakeDone: boolean;
+  // Кодировка обновлений позиций, согласованная при рукопожатии
+  encoding: WireEncoding;
+  // Данные об игроке становятся доступны после сообщения 'player_joined'
+  // и загрузки профиля из хранилища (пока он грузится, loadingProfile = true)
+  playerData?: PlayerState;
+  loadingProfile?: boolean;
+  // Вводы, ожидающие обработки на ближайшем тике
+  pendingInputs: MovementInput[];
+  // Последний обработанный seq ввода
+  lastProcessedInput: number;
+  // Сколько вводов клиент имеет право применить (пополняется на 1 за тик)
+  inputCredit: number;
+  // Тик последнего изменения состояния игрока (для дельта-снимков)
+  changedTick: number;
+  // Последний подтверждённый клиентом снимок и минимально допустимое подтверждение в текущей комнате
+  ackedTick: number;
+  minAckTick: number;
+  // Токен для возобновления сессии; выдаётся после регистрации игрока
+  resumeToken?: string;
+  // Неотвеченный 'ping', число пропущенных подряд и последний измеренный RTT
+  pendingPing?: { seq: number; sentAt: number };
+  missedHeartbeats: number;
+  rtt?: number;
+  // Лимиты сообщений и нарушения текущего соединения (см. abuse.ts)
+  guard: MessageGuard;
+  // Нарушения движения за всю сессию игрока (см. anticheat.ts)
+  violations: ViolationLog;
+  // Видимая клиенту область (в единицах поля) и игроки, о которых клиент сейчас знает
+  viewport: { width: number; height: number };
+  inView: Set<string>;
+  // Когда игрок последний раз закрашивал клетку доски
+  lastPaintAt: number;
+  // Последняя сохранённая в хранилище позиция
+  savedPosition?: Position;
+  // Таймер удаления игрока после обрыва связи (период ожидания переподключения)
+  graceTimer?: NodeJS.Timeout;
+}
+
+export const send = (ws: WebSocket, message: ServerMessage) => {
+  sendEncoded(ws, message.type, JSON.stringify(message));
+};
+
+// Отправляет уже закодированное сообщение: при рассылке многим оно кодируется один раз.
+// type нужен только для метрик
+export const sendEncoded = (ws: WebSocket, type: ServerMessage['type'], data: string | Uint8Array) => {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  ws.send(data);
+  metrics.messageSent(type, typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength);
+};
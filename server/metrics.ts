@@ -0,0 +1,147 @@
+import { GameStorage } from './storage';
+
+// Метрики сервера в текстовом формате Prometheus (отдаются на /metrics).
+// Счётчики копятся с запуска процесса; текущие значения (соединения, игроки, комнаты)
+// сервер передаёт в render в момент запроса.
+
+type Labels = Record<string, string>;
+
+export interface Sample {
+  labels?: Labels;
+  value: number;
+}
+
+// Метрика, значение которой вычисляется при запросе
+export interface GaugeFamily {
+  name: string;
+  help: string;
+  samples: Sample[];
+}
+
+// Границы корзин: длительность тика в секундах (тик — 16.7 мс) и число получателей рассылки
+const TICK_DURATION_BUCKETS = [0.001, 0.002, 0.005, 0.01, 0.0167, 0.025, 0.05, 0.1];
+const FANOUT_BUCKETS = [1, 2, 5, 10, 20, 50, 100];
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels | undefined): string => {
+  const entries = Object.entries(labels ?? {});
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+};
+
+class Counter {
+  private values: Map<string, { labels?: Labels; value: number }> = new Map();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels?: Labels, amount = 1) {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key);
+    if (entry) entry.value += amount;
+    else this.values.set(key, { labels, value: amount });
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    this.values.forEach(({ value }, key) => lines.push(`${this.name}${key} ${value}`));
+    return lines;
+  }
+}
+
+class Histogram {
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(readonly name: string, readonly help: string, private buckets: number[]) {
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number) {
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) this.counts[index]++;
+    });
+    this.sum += value;
+    this.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.buckets.forEach((bound, index) => lines.push(`${this.name}_bucket{le="${bound}"} ${this.counts[index]}`));
+    lines.push(`${this.name}_bucket{le="+Inf"} ${this.count}`);
+    lines.push(`${this.name}_sum ${this.sum}`, `${this.name}_count ${this.count}`);
+    return lines;
+  }
+}
+
+class Metrics {
+  private messagesReceived = new Counter('game_messages_received_total', 'Messages received from clients by type');
+  private messagesSent = new Counter('game_messages_sent_total', 'Messages sent to clients by type');
+  private bytesReceived = new Counter('game_bytes_received_total', 'Bytes received from clients in WebSocket frames');
+  private bytesSent = new Counter('game_bytes_sent_total', 'Bytes sent to clients in WebSocket frames');
+  private rejectedMessages = new Counter('game_messages_rejected_total', 'Client messages dropped by validation or rate limits');
+  private storageErrors = new Counter('game_storage_errors_total', 'Failed storage operations by operation');
+  private tickDuration = new Histogram('game_tick_duration_seconds', 'Time spent simulating one tick of all rooms', TICK_DURATION_BUCKETS);
+  private fanout = new Histogram('game_broadcast_recipients', 'Recipients of one broadcast message', FANOUT_BUCKETS);
+
+  messageReceived(type: string) {
+    this.messagesReceived.inc({ type });
+  }
+
+  frameReceived(bytes: number) {
+    this.bytesReceived.inc(undefined, bytes);
+  }
+
+  messageSent(type: string, bytes: number) {
+    this.messagesSent.inc({ type });
+    this.bytesSent.inc(undefined, bytes);
+  }
+
+  // reason — 'invalid', 'rate_limited' и т. п.
+  messageRejected(reason: string) {
+    this.rejectedMessages.inc({ reason });
+  }
+
+  storageError(operation: string) {
+    this.storageErrors.inc({ operation });
+  }
+
+  tick(seconds: number) {
+    this.tickDuration.observe(seconds);
+  }
+
+  broadcast(recipients: number) {
+    this.fanout.observe(recipients);
+  }
+
+  render(gauges: GaugeFamily[]): string {
+    const lines = gauges.flatMap(({ name, help, samples }) => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} gauge`,
+      ...samples.map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+    ]);
+    [this.messagesReceived, this.messagesSent, this.bytesReceived, this.bytesSent, this.rejectedMessages, this.storageErrors]
+      .forEach(counter => lines.push(...counter.render()));
+    lines.push(...this.tickDuration.render(), ...this.fanout.render());
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+// Метрики общие для всего процесса: сообщения отправляются из многих мест
+export const metrics = new Metrics();
+
+// Хранилище, ошибки которого учитываются в game_storage_errors_total. Сами ошибки
+// по-прежнему получает вызывающий — он решает, что с ними делать
+export const withErrorMetrics = (storage: GameStorage): GameStorage =>
+  new Proxy(storage, {
+    get(target, key, receiver) {
+      const value: unknown = Reflect.get(target, key, receiver);
+      if (typeof value !== 'function') return value;
+      return (...args: unknown[]) => {
+        const result: unknown = value.apply(target, args);
+        if (result instanceof Promise) result.catch(() => metrics.storageError(String(key)));
+        return result;
+      };
+    },
+  });
@@ -0,0 +1,54 @@
+import { GameConfig } from '../shared/movement';
+import { PlayerState, ProtocolError, ServerMessage } from '../shared/protocol';
+import { GameModeName } from '../shared/modes';
+import { TagMode } from './tag';
+
+// Игровой режим комнаты. Комната создаёт режим по имени и вызывает его хуки;
+// сам режим видит комнату только через ModeHost. Так правила режима не расползаются
+// по Room и GameServer, а новый режим — это новый класс и строчка в MODES.
+
+// То, что режиму нужно от комнаты: игроки, поиск соседей и рассылка
+export interface ModeHost {
+  readonly config: GameConfig;
+  players(): PlayerState[];
+  // Игроки в пределах reach от игрока (надмножество — точную проверку делает режим)
+  nearby(player: PlayerState, reach: number): PlayerState[];
+  broadcast(message: ServerMessage): void;
+  send(playerId: string, message: ServerMessage): void;
+}
+
+export interface GameMode {
+  readonly name: GameModeName;
+  // Комната создана и запускает режим
+  start(now: number): void;
+  // Игрок появился в мире комнаты или вернулся после обрыва связи —
+  // ему нужно прислать текущее состояние режима
+  playerJoined(playerId: string, now: number): void;
+  playerLeft(playerId: string, now: number): void;
+  // Вызывается каждый тик симуляции после движения; elapsed — длительность тика в мс
+  tick(now: number, elapsed: number): void;
+  // Сообщение 'mode_action' от игрока. Неизвестное действие или неверные данные —
+  // ProtocolError, его получит отправитель
+  handleAction(playerId: string, action: string, data: Record<string, unknown> | undefined): void;
+}
+
+// Свободная прогулка: никаких правил, только общий мир
+export class FreeRoamMode implements GameMode {
+  readonly name = 'free-roam';
+
+  start() {}
+  playerJoined() {}
+  playerLeft() {}
+  tick() {}
+
+  handleAction(_playerId: string, action: string) {
+    throw new ProtocolError('invalid_message', `mode ${this.name} has no action ${action}`);
+  }
+}
+
+const MODES: Record<GameModeName, (host: ModeHost) => GameMode> = {
+  'free-roam': () => new FreeRoamMode(),
+  tag: (host) => new TagMode(host),
+};
+
+export const createMode = (name: GameModeName, host: ModeHost): GameMode => MODES[name](host);
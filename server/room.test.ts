@@ -0,0 +1,319 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { DEFAULT_GAME_CONFIG, GameConfig, Position, TICK_RATE } from '../shared/movement';
+import { createTileMap, TileMap, withWorldSize } from '../shared/map';
+import { MINIMAP_RATE, PlayerState, ServerMessage } from '../shared/protocol';
+import { MessageGuard } from './abuse';
+import { ViolationLog } from './anticheat';
+import { ClientData } from './messages';
+import { Rect, SpatialGrid } from './grid';
+import { Room, TICKS_PER_SNAPSHOT, VIEW_MARGIN } from './room';
+
+// Пустая карта 500x400 единиц: места хватает на сотни игроков в разных областях интереса
+const COLUMNS = 100;
+const ROWS = 80;
+const TILE_SIZE = 5;
+// Небольшой экран: область интереса (с запасом VIEW_MARGIN) — 80x60 единиц
+const VIEWPORT = { width: 60, height: 40 };
+
+const createMap = (): TileMap => {
+  const rows = Array.from({ length: ROWS }, () => '.'.repeat(COLUMNS));
+  rows[1] = `.S${'.'.repeat(COLUMNS - 2)}`;
+  return createTileMap({ name: 'test', tileSize: TILE_SIZE, rows }, DEFAULT_GAME_CONFIG);
+};
+
+// Клиент с поддельным сокетом: кадры копятся в frames и разбираются только в receive
+interface TestClient {
+  id: string;
+  data: ClientData;
+  frames: string[];
+  // Игроки, о которых клиент знает по game_state, player_joined/left и view_enter/leave
+  known: Set<string>;
+}
+
+// Разбирает пришедшие с прошлого вызова сообщения и обновляет known
+const receive = (client: TestClient): ServerMessage[] => {
+  const messages = client.frames.splice(0).map(frame => JSON.parse(frame) as ServerMessage);
+  messages.forEach((message) => {
+    switch (message.type) {
+      case 'game_state':
+        client.known = new Set(message.payload.players.map(p => p.id));
+        break;
+      case 'player_joined':
+        client.known.add(message.payload.id);
+        break;
+      case 'view_enter':
+        message.payload.players.forEach(p => client.known.add(p.id));
+        break;
+      case 'player_left':
+        client.known.delete(message.payload.playerId);
+        break;
+      case 'view_leave':
+        message.payload.playerIds.forEach(playerId => client.known.delete(playerId));
+        break;
+    }
+  });
+  return messages;
+};
+
+const createClient = (id: string): TestClient => {
+  const frames: string[] = [];
+  const ws = {
+    readyState: WebSocket.OPEN,
+    send: (data: string | Uint8Array) => {
+      if (typeof data === 'string') frames.push(data);
+    },
+  } as unknown as WebSocket;
+
+  const data: ClientData = {
+    ws,
+    handshakeDone: true,
+    encoding: 'json',
+    pendingInputs: [],
+    lastProcessedInput: 0,
+    inputCredit: 0,
+    changedTick: 0,
+    ackedTick: 0,
+    minAckTick: 0,
+    missedHeartbeats: 0,
+    guard: new MessageGuard('127.0.0.1', id, 0),
+    violations: new ViolationLog(),
+    lastPaintAt: 0,
+    viewport: { ...VIEWPORT },
+    inView: new Set(),
+  };
+  return { id, data, frames, known: new Set() };
+};
+
+const createPlayer = (id: string): PlayerState => ({
+  id, handle: 0, name: id, color: '#ffffff', x: 0, y: 0, status: 'connected',
+});
+
+// Игроки, которые должны быть в области интереса игрока at (по определению из room.ts)
+const expectedView = (at: Position, players: Map<string, Position>): Set<string> => {
+  const halfWidth = VIEWPORT.width / 2 + VIEW_MARGIN;
+  const halfHeight = VIEWPORT.height / 2 + VIEW_MARGIN;
+  const ids = new Set<string>();
+  players.forEach((position, id) => {
+    if (Math.abs(position.x - at.x) <= halfWidth && Math.abs(position.y - at.y) <= halfHeight) ids.add(id);
+  });
+  return ids;
+};
+
+describe('SpatialGrid', () => {
+  const contains = (rect: Rect, { x, y }: Position) =>
+    x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom;
+
+  it('finds every player inside the queried area among hundreds', () => {
+    const grid = new SpatialGrid(16);
+    const positions = new Map<string, Position>();
+    for (let i = 0; i < 500; i++) {
+      // Детерминированный разброс по полю 500x400
+      const position = { x: (i * 37) % 500, y: (i * 53) % 400 };
+      positions.set(`p${i}`, position);
+      grid.set(`p${i}`, position);
+    }
+    expect(grid.size).toBe(500);
+
+    const rect = { left: 120, top: 80, right: 260, bottom: 190 };
+    const found = new Set<string>();
+    grid.query(rect, id => found.add(id));
+
+    const inside = Array.from(positions).filter(([, position]) => contains(rect, position)).map(([id]) => id);
+    expect(inside.length).toBeGreaterThan(0);
+    inside.forEach(id => expect(found.has(id)).toBe(true));
+    // Лишними могут быть только игроки из ячеек на границе области
+    found.forEach((id) => {
+      const { x, y } = positions.get(id)!;
+      expect(contains({ left: 112, top: 80, right: 271, bottom: 191 }, { x, y })).toBe(true);
+    });
+  });
+
+  it('moves and removes players', () => {
+    const grid = new SpatialGrid(16);
+    grid.set('a', { x: 5, y: 5 });
+    grid.set('a', { x: 300, y: 300 });
+    grid.set('b', { x: 6, y: 6 });
+
+    const near = new Set<string>();
+    grid.query({ left: 0, top: 0, right: 20, bottom: 20 }, id => near.add(id));
+    expect(near).toEqual(new Set(['b']));
+
+    grid.remove('b');
+    const far = new Set<string>();
+    grid.query({ left: 0, top: 0, right: 500, bottom: 500 }, id => far.add(id));
+    expect(far).toEqual(new Set(['a']));
+    expect(grid.size).toBe(1);
+  });
+});
+
+describe('Room area of interest', () => {
+  let map: TileMap;
+  let config: GameConfig;
+  let room: Room;
+  let clients: TestClient[];
+  let tick: number;
+
+  // Игроки стоят сеткой 20x20 с шагом 20 единиц — всего 400
+  const gridPosition = (index: number): Position => ({ x: 10 + (index % 20) * 20, y: 10 + Math.floor(index / 20) * 20 });
+
+  const positionsOf = () => new Map(clients.map(c => [c.id, { x: c.data.playerData!.x, y: c.data.playerData!.y }] as const));
+
+  // Прогоняет тики до ближайшей рассылки снимков включительно
+  const runUntilSnapshot = () => {
+    do {
+      tick++;
+      room.tick(tick);
+    } while (tick % TICKS_PER_SNAPSHOT !== 0);
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    map = createMap();
+    config = withWorldSize({ ...DEFAULT_GAME_CONFIG }, map);
+    room = new Room('test', 1000, config, map, 'free-roam', () => {});
+    clients = [];
+    tick = 0;
+    for (let i = 0; i < 400; i++) {
+      const client = createClient(`p${i}`);
+      room.addClient(client.id, client.data);
+      client.data.playerData = createPlayer(client.id);
+      room.spawnPlayer(client.id, client.data, gridPosition(i));
+      clients.push(client);
+    }
+    clients.forEach(receive);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('spawns players where asked', () => {
+    clients.forEach((client, index) => {
+      expect(client.data.playerData).toMatchObject(gridPosition(index));
+    });
+  });
+
+  it('tells every client exactly about the players in its area', () => {
+    runUntilSnapshot();
+    clients.forEach(receive);
+    const positions = positionsOf();
+    clients.forEach((client) => {
+      const expected = expectedView(positions.get(client.id)!, positions);
+      expect(client.known).toEqual(expected);
+      expect(client.data.inView).toEqual(expected);
+    });
+  });
+
+  it('sends view_enter and view_leave when a player moves to another area', () => {
+    runUntilSnapshot();
+    clients.forEach(receive);
+    const mover = clients[0];
+    const before = new Set(clients.filter(c => c !== mover && c.known.has(mover.id)));
+
+    // Из левого верхнего угла — в центр поля
+    expect(room.teleportPlayer(mover.id, { x: 250, y: 190 })).toBe(true);
+    runUntilSnapshot();
+    const received = new Map(clients.map(c => [c, receive(c)] as const));
+
+    const positions = positionsOf();
+    const after = new Set(clients.filter(c => c !== mover && expectedView(positions.get(c.id)!, positions).has(mover.id)));
+    expect(before.size).toBeGreaterThan(0);
+    expect(after.size).toBeGreaterThan(0);
+
+    clients.forEach((client) => {
+      if (client === mover) return;
+      const entered = received.get(client)!.some(m => m.type === 'view_enter' && m.payload.players.some(p => p.id === mover.id));
+      const left = received.get(client)!.some(m => m.type === 'view_leave' && m.payload.playerIds.includes(mover.id));
+      expect(entered).toBe(after.has(client) && !before.has(client));
+      expect(left).toBe(before.has(client) && !after.has(client));
+      expect(client.known.has(mover.id)).toBe(after.has(client));
+    });
+
+    // Сам игрок забыл старых соседей и узнал новых
+    const moverView = expectedView(positions.get(mover.id)!, positions);
+    expect(mover.known).toEqual(moverView);
+    expect(received.get(mover)!.some(m => m.type === 'view_leave')).toBe(true);
+    expect(received.get(mover)!.some(m => m.type === 'view_enter')).toBe(true);
+  });
+
+  it('sends only changed players from the area in snapshots', () => {
+    runUntilSnapshot();
+    // Все подтверждают снимок, затем двигается один игрок
+    clients.forEach(c => room.acknowledgeSnapshot(c.data, tick));
+    clients.forEach(receive);
+    const mover = clients[210];
+    mover.data.pendingInputs.push({ seq: 1, up: false, down: false, left: false, right: true });
+    runUntilSnapshot();
+
+    clients.forEach((client) => {
+      const snapshots = receive(client).filter(m => m.type === 'snapshot');
+      expect(snapshots).toHaveLength(1);
+      const ids = snapshots[0].type === 'snapshot' ? snapshots[0].payload.entities.map(e => e.playerId) : [];
+      expect(ids).toEqual(client.known.has(mover.id) ? [mover.id] : []);
+    });
+  });
+
+  it('sends the coarse positions of every player for the minimap once a second', () => {
+    const received = (client: TestClient) => receive(client).filter(m => m.type === 'minimap');
+    for (let i = 1; i < TICK_RATE / MINIMAP_RATE; i++) room.tick(++tick);
+    expect(clients.every(c => received(c).length === 0)).toBe(true);
+
+    room.tick(++tick);
+    clients.forEach((client) => {
+      const minimaps = received(client);
+      expect(minimaps).toHaveLength(1);
+      const players = minimaps[0].type === 'minimap' ? minimaps[0].payload.players : [];
+      // Все 400, а не только область интереса
+      expect(players).toHaveLength(clients.length);
+      expect(players.find(p => p.playerId === 'p21')).toEqual({ playerId: 'p21', x: 30, y: 30, color: '#ffffff' });
+    });
+  });
+
+  it('sends one snapshot per snapshot tick to hundreds of moving players', () => {
+    const directions = [
+      { up: true, down: false, left: false, right: false },
+      { up: false, down: true, left: false, right: false },
+      { up: false, down: false, left: true, right: false },
+      { up: false, down: false, left: false, right: true },
+    ];
+    // Три секунды игры: все игроки ходят, каждый TICKS_PER_SNAPSHOT-й тик — рассылка снимков
+    for (let seq = 1; seq <= TICK_RATE * 3; seq++) {
+      clients.forEach((client, index) => {
+        client.data.pendingInputs.push({ seq, ...directions[(index + Math.floor(seq / 20)) % directions.length] });
+      });
+      room.tick(++tick);
+      const isSnapshotTick = tick % TICKS_PER_SNAPSHOT === 0;
+      // Сколько снимков получил каждый клиент: у всех должно быть поровну
+      const counts = new Set(clients.map(c => receive(c).filter(m => m.type === 'snapshot').length));
+      expect(counts).toEqual(new Set([isSnapshotTick ? 1 : 0]));
+      if (isSnapshotTick) clients.forEach(c => room.acknowledgeSnapshot(c.data, tick));
+    }
+
+    // После всех перемещений области интереса по-прежнему точные
+    const positions = positionsOf();
+    clients.forEach((client) => {
+      expect(client.known).toEqual(expectedView(positions.get(client.id)!, positions));
+    });
+  });
+});
+
+describe('Room spawns', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps spawns clear of walls when the player size grows', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    // Единственная точка появления, со всех сторон стены
+    const map = createTileMap({ name: 'cell', tileSize: TILE_SIZE, rows: ['###', '#S#', '###'] }, DEFAULT_GAME_CONFIG);
+    const config = withWorldSize({ ...DEFAULT_GAME_CONFIG }, map);
+    const room = new Room('test', 10, config, map, 'free-roam', () => {});
+    room.setConfig({ ...config, playerSize: TILE_SIZE });
+
+    const client = createClient('a');
+    client.data.playerData = createPlayer('a');
+    room.addClient(client.id, client.data);
+    expect(client.data.playerData).toMatchObject({ x: TILE_SIZE, y: TILE_SIZE });
+  });
+});
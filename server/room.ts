@@ -0,0 +1,584 @@
+import { WebSocket } from 'ws';
+import { boxesOverlap, GameConfig, Position, stepPlayer, TICK_INTERVAL, TICK_RATE } from '../shared/movement';
+import { collidesWithWalls, createTileMap, TileMap } from '../shared/map';
+import { RoomInfo } from '../shared/rooms';
+import {
+  EntityState, MAX_VIEW_HEIGHT, MAX_VIEW_WIDTH, MINIMAP_RATE, MinimapMessage, PlayerState, PlayerStatus, ServerMessage,
+  SNAPSHOT_RATE,
+} from '../shared/protocol';
+import { encodeSnapshot, MAX_HANDLE } from '../shared/binary';
+import { ChatChannel, ChatEntry, PROXIMITY_CHAT_RADIUS } from '../shared/chat';
+import { BoardSize, encodeBoard, getBoardSize, isValidPixel, Pixel } from '../shared/board';
+import { ClientData, send, sendEncoded } from './messages';
+import { metrics } from './metrics';
+import { Rect, SpatialGrid } from './grid';
+import { GameModeName } from '../shared/modes';
+import { createMode, GameMode } from './modes';
+import { CollectibleField } from './collectibles';
+import { checkStep, reportViolation } from './anticheat';
+import { COLLECTIBLES_PER_ROOM } from '../shared/collectibles';
+
+// Сколько вводов можно накопить «впрок», чтобы сгладить неравномерную доставку пакетов
+const MAX_INPUT_CREDIT = 5;
+// Снимок рассылается каждый N-й тик симуляции
+export const TICKS_PER_SNAPSHOT = Math.max(1, Math.round(TICK_RATE / SNAPSHOT_RATE));
+// Мини-карта обновляется реже снимков
+const TICKS_PER_MINIMAP = Math.max(1, Math.round(TICK_RATE / MINIMAP_RATE));
+// Запас вокруг видимой области, чтобы игроки не «выпрыгивали» из-за края экрана
+export const VIEW_MARGIN = 10;
+// Размер ячейки пространственной сетки в единицах поля: видимая область
+// покрывает порядка сотни ячеек, а соседи для столкновений — одну-четыре
+const GRID_CELL_SIZE = 16;
+// Как далеко от точки появления (в тайлах) искать свободное место
+const SPAWN_SEARCH_RADIUS = 2;
+// Точка отсчёта времени сервера в снимках
+const SERVER_START = Date.now();
+
+// Комната — независимый игровой мир со своим набором игроков
+export class Room {
+  private clients: Map<string, ClientData> = new Map();
+  private currentTick = 0;
+  // Позиции игроков комнаты для поиска по области (ключ — id игрока)
+  private grid = new SpatialGrid(GRID_CELL_SIZE);
+  private boardSize: BoardSize;
+  private board: Uint8Array;
+  // Закрашенные с прошлой рассылки клетки (по индексу клетки — повторная покраска перезаписывает)
+  private pendingPixels: Map<number, Pixel> = new Map();
+  private mode: GameMode;
+  private collectibles: CollectibleField;
+  // Точки появления зависят от размера игрока (игрок ставится в центр тайла),
+  // поэтому карта пересчитывается под настройки комнаты
+  private map: TileMap;
+
+  // onCollect — игрок подобрал предмет на points очков (очки копит вызывающий)
+  constructor(
+    readonly name: string,
+    readonly capacity: number,
+    private config: GameConfig,
+    map: TileMap,
+    modeName: GameModeName,
+    private onCollect: (player: PlayerState, points: number) => void
+  ) {
+    this.map = createTileMap(map.definition, config);
+    this.boardSize = getBoardSize(config);
+    this.board = new Uint8Array(this.boardSize.width * this.boardSize.height);
+    this.mode = createMode(modeName, {
+      config,
+      players: () => this.getPlayers(),
+      nearby: (player, reach) => this.getPlayersNear(player, reach),
+      broadcast: (message) => this.broadcast(message),
+      send: (playerId, message) => {
+        const client = this.clients.get(playerId);
+        if (client) send(client.ws, message);
+      },
+    });
+    this.mode.start(Date.now());
+    this.collectibles = new CollectibleField(config, this.map, (position, size) => this.isOccupied(position, size));
+    this.collectibles.fill(COLLECTIBLES_PER_ROOM, Date.now());
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  isFull(): boolean {
+    return this.clients.size >= this.capacity;
+  }
+
+  getInfo(): RoomInfo {
+    return { name: this.name, players: this.clients.size, capacity: this.capacity, mode: this.mode.name };
+  }
+
+  getConfig(): GameConfig {
+    return { ...this.config };
+  }
+
+  // Применяет новые настройки на ходу и рассылает их игрокам комнаты.
+  // Объект конфигурации общий с режимом и предметами, поэтому меняется на месте
+  setConfig(config: GameConfig) {
+    const keys = Object.keys(config) as (keyof GameConfig)[];
+    if (keys.every(key => this.config[key] === config[key])) return;
+    const resized = config.playerSize !== this.config.playerSize;
+    Object.assign(this.config, config);
+    if (resized) this.map = createTileMap(this.map.definition, this.config);
+    console.log(`Room ${this.name} config changed:`, this.config);
+    this.broadcast({ type: 'config_changed', payload: { config: this.getConfig() } });
+  }
+
+  addClient(clientId: string, client: ClientData) {
+    this.clients.set(clientId, client);
+    // Первый снимок в комнате будет полным
+    this.resetSnapshots(client);
+    if (client.playerData) {
+      this.spawnPlayer(clientId, client);
+    }
+  }
+
+  // Регистрирует игрока в мире комнаты: выдаёт точку появления и оповещает тех, кто его видит.
+  // preferred — где игрок был в прошлый раз; если там занято, он появится на обычной точке
+  spawnPlayer(clientId: string, client: ClientData, preferred?: Position) {
+    const player = client.playerData;
+    if (!player) return;
+    Object.assign(player, this.getSpawnPosition(client, preferred));
+    player.handle = this.allocateHandle(client);
+    client.pendingInputs = [];
+    client.changedTick = this.currentTick + 1;
+    this.grid.set(clientId, player);
+
+    // Отправляем состояние комнаты ТОЛЬКО этому клиенту: себя и игроков в его области интереса
+    this.sendGameState(client);
+
+    // О появлении узнают только те, в чью область интереса попала точка появления.
+    // Остальные получат 'view_enter', когда игрок до них дойдёт.
+    const message = JSON.stringify({ type: 'player_joined', payload: player });
+    let recipients = 0;
+    this.forEachViewer(player, (viewer) => {
+      if (viewer === client) return;
+      viewer.inView.add(clientId);
+      sendEncoded(viewer.ws, 'player_joined', message);
+      recipients++;
+    });
+    metrics.broadcast(recipients);
+    this.mode.playerJoined(clientId, Date.now());
+  }
+
+  // Возвращает в мир игрока, переподключившегося в период ожидания:
+  // позиция и имя сохраняются, состояние комнаты приходит заново целиком
+  resumePlayer(clientId: string, client: ClientData) {
+    if (!client.playerData) return;
+    this.resetSnapshots(client);
+    client.inputCredit = 0;
+    this.setPlayerStatus(clientId, client, 'connected');
+    this.sendGameState(client);
+    this.mode.playerJoined(clientId, Date.now());
+  }
+
+  private resetSnapshots(client: ClientData) {
+    client.ackedTick = 0;
+    client.minAckTick = this.currentTick + 1;
+    client.inView = new Set();
+  }
+
+  setPlayerStatus(clientId: string, client: ClientData, status: PlayerStatus) {
+    if (!client.playerData) return;
+    client.playerData.status = status;
+    this.sendToWatchers(clientId, { type: 'player_status', payload: { playerId: clientId, status } }, clientId);
+  }
+
+  updatePlayer(clientId: string, client: ClientData, changes: { name?: string; color?: string }) {
+    const player = client.playerData;
+    if (!player) return;
+    Object.assign(player, changes);
+    this.sendToWatchers(clientId, {
+      type: 'player_updated',
+      payload: { playerId: clientId, name: player.name, color: player.color },
+    });
+  }
+
+  // Сообщение чата: global — всей комнате, proximity — только игрокам
+  // в радиусе PROXIMITY_CHAT_RADIUS от отправителя (включая его самого)
+  chat(client: ClientData, channel: ChatChannel, text: string) {
+    const sender = client.playerData;
+    if (!sender) return;
+
+    const entry: ChatEntry = { playerId: sender.id, name: sender.name, channel, text, time: Date.now() };
+    if (channel === 'global') {
+      this.broadcast({ type: 'chat', payload: entry });
+      return;
+    }
+
+    const origin = this.getCenter(sender);
+    const messageStr = JSON.stringify({ type: 'chat', payload: entry });
+    const radius = PROXIMITY_CHAT_RADIUS;
+    const area = { left: sender.x - radius, top: sender.y - radius, right: sender.x + radius, bottom: sender.y + radius };
+    let recipients = 0;
+    this.grid.query(area, (id) => {
+      const recipient = this.clients.get(id);
+      if (!recipient?.playerData || recipient.ws.readyState !== WebSocket.OPEN) return;
+      const { x, y } = this.getCenter(recipient.playerData);
+      if (Math.hypot(x - origin.x, y - origin.y) <= radius) {
+        sendEncoded(recipient.ws, 'chat', messageStr);
+        recipients++;
+      }
+    });
+    metrics.broadcast(recipients);
+  }
+
+  // Прежнее место игрока, если оно свободно; иначе случайная точка появления,
+  // а если она занята — ближайшее к ней свободное место.
+  // Если свободно нигде, игрок появляется прямо на точке и разойдётся с соседями сам.
+  private getSpawnPosition(owner: ClientData, preferred?: Position): Position {
+    const { spawns, tileSize } = this.map;
+    const { playerSize } = this.config;
+    const occupied = Array.from(this.clients.values())
+      .filter(c => c !== owner && c.playerData)
+      .map(c => c.playerData!);
+    const isFree = (position: Position) =>
+      position.x >= 0 && position.y >= 0 &&
+      position.x <= this.config.fieldWidth - playerSize && position.y <= this.config.fieldHeight - playerSize &&
+      !collidesWithWalls(this.map, position, playerSize) &&
+      !occupied.some(other => boxesOverlap(position, other, playerSize));
+
+    if (preferred && isFree(preferred)) return { x: preferred.x, y: preferred.y };
+
+    const first = Math.floor(Math.random() * spawns.length);
+    const maxRing = Math.ceil((SPAWN_SEARCH_RADIUS * tileSize) / playerSize);
+    for (let i = 0; i < spawns.length; i++) {
+      const spawn = spawns[(first + i) % spawns.length];
+      // Обходим квадратные кольца вокруг точки шагом в размер игрока
+      for (let ring = 0; ring <= maxRing; ring++) {
+        for (let dy = -ring; dy <= ring; dy++) {
+          for (let dx = -ring; dx <= ring; dx++) {
+            if (Math.max(Math.abs(dx), Math.abs(dy)) !== ring) continue;
+            const candidate = { x: spawn.x + dx * playerSize, y: spawn.y + dy * playerSize };
+            if (isFree(candidate)) return candidate;
+          }
+        }
+      }
+    }
+    return { ...spawns[first] };
+  }
+
+  // Переносит игрока в указанное место (команда администратора); false — место занято стеной
+  // или вне поля. Клиент узнает о новой позиции из ближайшего снимка и сверит предсказание с ней
+  teleportPlayer(clientId: string, position: Position): boolean {
+    const client = this.clients.get(clientId);
+    const player = client?.playerData;
+    if (!client || !player) return false;
+    const { playerSize, fieldWidth, fieldHeight } = this.config;
+    if (position.x < 0 || position.y < 0 || position.x > fieldWidth - playerSize || position.y > fieldHeight - playerSize ||
+        collidesWithWalls(this.map, position, playerSize)) {
+      return false;
+    }
+    player.x = position.x;
+    player.y = position.y;
+    client.changedTick = this.currentTick + 1;
+    this.grid.set(clientId, player);
+    return true;
+  }
+
+  // Действие режима от игрока; ошибки (ProtocolError) обрабатывает вызывающий
+  handleModeAction(clientId: string, action: string, data: Record<string, unknown> | undefined) {
+    if (!this.clients.get(clientId)?.playerData) return;
+    this.mode.handleAction(clientId, action, data);
+  }
+
+  // Закрашивает клетку доски; false — клетка или цвет вне допустимых значений
+  paint(pixel: Pixel): boolean {
+    if (!isValidPixel(pixel, this.boardSize)) return false;
+    const index = pixel.y * this.boardSize.width + pixel.x;
+    this.board[index] = pixel.color;
+    this.pendingPixels.set(index, pixel);
+    return true;
+  }
+
+  private getCenter(position: Position): Position {
+    const half = this.config.playerSize / 2;
+    return { x: position.x + half, y: position.y + half };
+  }
+
+  sendGameState(client: ClientData) {
+    // С этого момента клиент знает ровно об игроках из своей области интереса
+    client.inView = this.collectView(client);
+    const visiblePlayers = Array.from(client.inView, id => this.clients.get(id)!.playerData!);
+    send(client.ws, {
+      type: 'game_state',
+      payload: {
+        room: this.name,
+        mode: this.mode.name,
+        config: this.config,
+        players: visiblePlayers,
+        board: encodeBoard(this.board),
+        map: this.map.definition,
+        collectibles: this.collectibles.list(),
+      },
+    });
+    // Мини-карта сразу, а не через секунду до ближайшей рассылки
+    send(client.ws, this.getMinimap());
+  }
+
+  removeClient(clientId: string) {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+    this.clients.delete(clientId);
+    this.grid.remove(clientId);
+
+    // Оповещаем тех, кто видел игрока, что он ушел
+    if (client.playerData) {
+      this.sendToWatchers(clientId, { type: 'player_left', payload: { playerId: clientId } });
+      this.clients.forEach((other) => other.inView.delete(clientId));
+      this.mode.playerLeft(clientId, Date.now());
+    }
+  }
+
+  // Каждому клиенту — задержка только тех игроков, о которых он знает
+  broadcastLatency() {
+    this.clients.forEach((client) => {
+      if (client.ws.readyState !== WebSocket.OPEN) return;
+      const players = Array.from(client.inView).flatMap((id) => {
+        const rtt = this.clients.get(id)?.rtt;
+        return rtt === undefined ? [] : [{ playerId: id, rtt }];
+      });
+      if (players.length > 0) send(client.ws, { type: 'latency', payload: { players } });
+    });
+  }
+
+  // Клиент подтвердил снимок: дальше шлём ему только то, что изменилось после него.
+  // Подтверждения из другой комнаты или «из будущего» игнорируем.
+  acknowledgeSnapshot(client: ClientData, tick: number) {
+    if (tick < client.minAckTick || tick > this.currentTick || tick <= client.ackedTick) return;
+    client.ackedTick = tick;
+  }
+
+  // Выдаёт наименьший свободный handle в комнате
+  private allocateHandle(owner: ClientData): number {
+    const used = new Set<number>();
+    this.clients.forEach((client) => {
+      if (client !== owner && client.playerData) used.add(client.playerData.handle);
+    });
+    for (let handle = 1; handle <= MAX_HANDLE; handle++) {
+      if (!used.has(handle)) return handle;
+    }
+    throw new Error(`Room ${this.name} has no free player handles`);
+  }
+
+  tick(tick: number) {
+    this.currentTick = tick;
+
+    this.clients.forEach((client, clientId) => {
+      const player = client.playerData;
+      if (!player) return;
+
+      client.inputCredit = Math.min(MAX_INPUT_CREDIT, client.inputCredit + 1);
+      if (client.pendingInputs.length === 0) return;
+
+      // Столкнуться за тик можно только с близкими игроками — их и берём из сетки
+      const others = this.getNearbyBodies(client);
+      // Не больше одного ввода за тик в среднем — так нельзя ускориться, присылая вводы чаще
+      while (client.inputCredit >= 1 && client.pendingInputs.length > 0) {
+        const input = client.pendingInputs.shift()!;
+        const { position, pushed } = stepPlayer(
+          player, input, this.config, this.map, others.map(c => c.playerData!)
+        );
+        // Недопустимый шаг не применяем: игрок остаётся на месте, остальные вводы отбрасываются
+        const violation = checkStep(player, position, this.config, this.map);
+        if (violation) {
+          reportViolation(client, violation.kind, violation.detail);
+          break;
+        }
+        player.x = position.x;
+        player.y = position.y;
+        // Вытолкнутые игроки тоже попадут в ближайший снимок
+        pushed.forEach((target, index) => {
+          const other = others[index].playerData!;
+          Object.assign(other, target);
+          others[index].changedTick = tick;
+          this.grid.set(other.id, other);
+        });
+        client.lastProcessedInput = input.seq;
+        client.inputCredit -= 1;
+      }
+
+      // Изменился и seq подтверждения, даже если игрок упёрся в стену
+      client.changedTick = tick;
+      this.grid.set(clientId, player);
+    });
+
+    const now = Date.now();
+    this.collectItems(tick, now);
+    this.mode.tick(now, TICK_INTERVAL);
+
+    if (tick % TICKS_PER_SNAPSHOT === 0) {
+      this.sendSnapshots();
+      this.flushPixels();
+    }
+    if (tick % TICKS_PER_MINIMAP === 0) this.broadcast(this.getMinimap());
+  }
+
+  // Каждому клиенту — один снимок с сущностями из его области интереса, изменившимися
+  // после последнего подтверждённого снимка. Владельцу это заодно подтверждение для сверки.
+  // Пустой снимок тоже уходит: он сообщает клиенту, что остальные стоят на месте.
+  // Перед снимком клиент узнаёт, кто вошёл в область ('view_enter') и кто её покинул ('view_leave').
+  private sendSnapshots() {
+    const time = Date.now() - SERVER_START;
+
+    this.clients.forEach((client) => {
+      if (client.ws.readyState !== WebSocket.OPEN || !client.playerData) return;
+
+      const inView = this.collectView(client);
+      const entered: PlayerState[] = [];
+      const changed: ClientData[] = [];
+      inView.forEach((id) => {
+        const other = this.clients.get(id)!;
+        if (!client.inView.has(id)) {
+          entered.push(other.playerData!);
+        } else if (other.changedTick > client.ackedTick) {
+          changed.push(other);
+        }
+      });
+      const left = Array.from(client.inView).filter(id => !inView.has(id));
+      client.inView = inView;
+
+      if (left.length > 0) send(client.ws, { type: 'view_leave', payload: { playerIds: left } });
+      // Вошедшие приходят с актуальной позицией, в снимке их повторять не нужно
+      if (entered.length > 0) send(client.ws, { type: 'view_enter', payload: { players: entered } });
+
+      if (client.encoding === 'binary') {
+        sendEncoded(client.ws, 'snapshot', encodeSnapshot({
+          tick: this.currentTick,
+          time,
+          entities: changed.map(c => ({ ...this.toEntityState(c), handle: c.playerData!.handle })),
+        }));
+      } else {
+        send(client.ws, {
+          type: 'snapshot',
+          payload: { tick: this.currentTick, time, entities: changed.map(c => this.toEntityState(c)) },
+        });
+      }
+    });
+  }
+
+  // Подбирать предметы могут только сдвинувшиеся за тик игроки (в том числе вытолкнутые).
+  // Подбор виден всей комнате сразу, а не только тем, в чьей области интереса предмет.
+  private collectItems(tick: number, now: number) {
+    this.clients.forEach((client, clientId) => {
+      const player = client.playerData;
+      if (!player || client.changedTick !== tick) return;
+      this.collectibles.pickUp(player, now).forEach((item) => {
+        this.broadcast({ type: 'collectible_picked', payload: { id: item.id, playerId: clientId, points: item.value } });
+        this.onCollect(player, item.value);
+      });
+    });
+
+    const spawned = this.collectibles.respawnDue(now);
+    if (spawned.length > 0) this.broadcast({ type: 'collectibles_spawned', payload: { collectibles: spawned } });
+  }
+
+  // Занято ли место каким-нибудь игроком комнаты
+  private isOccupied(position: Position, size: number): boolean {
+    const { playerSize } = this.config;
+    let occupied = false;
+    const area = { left: position.x - playerSize, top: position.y - playerSize, right: position.x + size, bottom: position.y + size };
+    this.grid.query(area, (id) => {
+      const player = this.clients.get(id)?.playerData;
+      if (!player) return;
+      if (player.x < position.x + size && position.x < player.x + playerSize &&
+          player.y < position.y + size && position.y < player.y + playerSize) {
+        occupied = true;
+      }
+    });
+    return occupied;
+  }
+
+  // Все игроки комнаты, независимо от областей интереса. Координаты грубые:
+  // точка на мини-карте меньше единицы поля, а сообщение становится короче
+  private getMinimap(): MinimapMessage {
+    const players = this.getPlayers().map(({ id, x, y, color }) => ({ playerId: id, x: Math.round(x), y: Math.round(y), color }));
+    return { type: 'minimap', payload: { players } };
+  }
+
+  // Изменения доски уходят пачкой вместе со снимками
+  private flushPixels() {
+    if (this.pendingPixels.size === 0) return;
+    const pixels = Array.from(this.pendingPixels.values());
+    this.pendingPixels.clear();
+    this.broadcast({ type: 'pixels', payload: { pixels } });
+  }
+
+  // Видимая клиенту область вокруг его собственного игрока (с запасом)
+  private getViewRect(viewer: PlayerState, viewport: { width: number; height: number }): Rect {
+    const halfWidth = viewport.width / 2 + VIEW_MARGIN;
+    const halfHeight = viewport.height / 2 + VIEW_MARGIN;
+    return { left: viewer.x - halfWidth, top: viewer.y - halfHeight, right: viewer.x + halfWidth, bottom: viewer.y + halfHeight };
+  }
+
+  private isInView(client: ClientData, player: PlayerState): boolean {
+    const rect = this.getViewRect(client.playerData!, client.viewport);
+    return player.x >= rect.left && player.x <= rect.right && player.y >= rect.top && player.y <= rect.bottom;
+  }
+
+  // Игроки в области интереса клиента; сам клиент входит в неё всегда
+  private collectView(client: ClientData): Set<string> {
+    const inView = new Set<string>();
+    const viewer = client.playerData;
+    if (!viewer) return inView;
+
+    inView.add(viewer.id);
+    this.grid.query(this.getViewRect(viewer, client.viewport), (id) => {
+      const player = this.clients.get(id)?.playerData;
+      if (player && this.isInView(client, player)) inView.add(id);
+    });
+    return inView;
+  }
+
+  // Клиенты, в чью область интереса попадает игрок. Ищем по сетке в пределах
+  // самой большой допустимой области — дальше никто заглянуть не может.
+  private forEachViewer(player: PlayerState, callback: (viewer: ClientData) => void) {
+    const reach = this.getViewRect(player, { width: MAX_VIEW_WIDTH, height: MAX_VIEW_HEIGHT });
+    this.grid.query(reach, (id) => {
+      const viewer = this.clients.get(id);
+      if (viewer?.playerData && viewer.ws.readyState === WebSocket.OPEN && this.isInView(viewer, player)) {
+        callback(viewer);
+      }
+    });
+  }
+
+  // Сообщение об игроке — только клиентам, которые о нём знают (и ему самому)
+  private sendToWatchers(playerId: string, message: ServerMessage, excludeClientId?: string) {
+    const messageStr = JSON.stringify(message);
+    let recipients = 0;
+    this.clients.forEach((client, clientId) => {
+      if (clientId === excludeClientId || client.ws.readyState !== WebSocket.OPEN) return;
+      if (clientId === playerId || client.inView.has(playerId)) {
+        sendEncoded(client.ws, message.type, messageStr);
+        recipients++;
+      }
+    });
+    metrics.broadcast(recipients);
+  }
+
+  private getPlayers(): PlayerState[] {
+    return Array.from(this.clients.values()).flatMap(c => (c.playerData ? [c.playerData] : []));
+  }
+
+  private getPlayersNear(player: PlayerState, reach: number): PlayerState[] {
+    const players: PlayerState[] = [];
+    const area = { left: player.x - reach, top: player.y - reach, right: player.x + reach, bottom: player.y + reach };
+    this.grid.query(area, (id) => {
+      const other = this.clients.get(id)?.playerData;
+      if (other) players.push(other);
+    });
+    return players;
+  }
+
+  // Игроки, с которыми можно столкнуться за один тик: сам игрок сдвигается
+  // не дальше чем на moveSpeed, вытолкнутый — тоже, и упирается в соседей
+  private getNearbyBodies(client: ClientData): ClientData[] {
+    const player = client.playerData!;
+    const reach = 2 * (this.config.playerSize + this.config.moveSpeed);
+    const bodies: ClientData[] = [];
+    const area = { left: player.x - reach, top: player.y - reach, right: player.x + reach, bottom: player.y + reach };
+    this.grid.query(area, (id) => {
+      const other = this.clients.get(id);
+      if (other && other !== client && other.playerData) bodies.push(other);
+    });
+    return bodies;
+  }
+
+  private toEntityState(client: ClientData): EntityState {
+    const { id, x, y } = client.playerData!;
+    return { playerId: id, x, y, seq: client.lastProcessedInput };
+  }
+
+  broadcast(message: ServerMessage, excludeClientId?: string) {
+    const messageStr = JSON.stringify(message);
+    let recipients = 0;
+    this.clients.forEach((client, clientId) => {
+      if (clientId !== excludeClientId && client.ws.readyState === WebSocket.OPEN) {
+        sendEncoded(client.ws, message.type, messageStr);
+        recipients++;
+      }
+    });
+    metrics.broadcast(recipients);
+  }
+}
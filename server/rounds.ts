@@ -0,0 +1,142 @@
+import { PlayerState, ProtocolError } from '../shared/protocol';
+import { GameModeName, RoundPhase, ScoreEntry } from '../shared/modes';
+import { GameMode, ModeHost } from './modes';
+
+export interface RoundOptions {
+  duration: number;
+  intermission: number;
+  minPlayers: number;
+}
+
+// Как часто режимы с раундами рассылают текущий счёт
+const SCORES_INTERVAL = 1000;
+
+// Основа для режимов с раундами: ожидание игроков → раунд → пауза → следующий раунд.
+// Наследник задаёт правила раунда (onRoundStart, onTick) и, если нужно,
+// своё условие победы (isRoundWon); по умолчанию раунд длится options.duration.
+export abstract class RoundMode implements GameMode {
+  abstract readonly name: GameModeName;
+
+  protected phase: RoundPhase = 'waiting';
+  // Конец текущего раунда или паузы
+  protected phaseEndsAt = 0;
+  protected scores: Map<string, number> = new Map();
+  private scoresSentAt = 0;
+  private lastResult: { winner?: ScoreEntry; scores: ScoreEntry[] } = { scores: [] };
+
+  constructor(protected host: ModeHost, private options: RoundOptions) {}
+
+  start() {}
+
+  tick(now: number, elapsed: number) {
+    const active = this.getActivePlayers();
+
+    switch (this.phase) {
+      case 'waiting':
+        if (active.length >= this.options.minPlayers) this.startRound(now, active);
+        return;
+
+      case 'intermission':
+        if (now < this.phaseEndsAt) return;
+        if (active.length >= this.options.minPlayers) {
+          this.startRound(now, active);
+        } else {
+          this.phase = 'waiting';
+        }
+        return;
+
+      case 'playing':
+        if (active.length < this.options.minPlayers) {
+          this.endRound(now, false);
+          return;
+        }
+        this.onTick(now, elapsed);
+        if (this.isRoundWon(now)) {
+          this.endRound(now, true);
+        } else if (now - this.scoresSentAt >= SCORES_INTERVAL) {
+          this.scoresSentAt = now;
+          this.host.broadcast({ type: 'scores', payload: { scores: this.getScores() } });
+        }
+        return;
+    }
+  }
+
+  playerJoined(playerId: string, now: number) {
+    if (this.phase === 'playing') {
+      if (!this.scores.has(playerId)) this.scores.set(playerId, 0);
+      this.host.send(playerId, { type: 'round_started', payload: { remaining: this.phaseEndsAt - now } });
+      this.host.send(playerId, { type: 'scores', payload: { scores: this.getScores() } });
+    } else if (this.phase === 'intermission') {
+      this.host.send(playerId, {
+        type: 'round_ended',
+        payload: { ...this.lastResult, nextRoundIn: this.phaseEndsAt - now },
+      });
+    }
+  }
+
+  playerLeft(playerId: string, now: number) {
+    this.scores.delete(playerId);
+    if (this.phase === 'playing') this.onPlayerLeft?.(playerId, now);
+  }
+
+  handleAction(_playerId: string, action: string) {
+    throw new ProtocolError('invalid_message', `mode ${this.name} has no action ${action}`);
+  }
+
+  // Раунд начался: счёт уже обнулён, клиентам отправлено 'round_started'
+  protected abstract onRoundStart(now: number, active: PlayerState[]): void;
+  // Тик идущего раунда
+  protected abstract onTick(now: number, elapsed: number): void;
+  protected onPlayerLeft?(playerId: string, now: number): void;
+  protected onRoundEnd?(): void;
+
+  // Условие победы; победитель — лидер по очкам
+  protected isRoundWon(now: number): boolean {
+    return now >= this.phaseEndsAt;
+  }
+
+  // Игроки, которые могут участвовать в раунде (без ждущих переподключения)
+  protected getActivePlayers(): PlayerState[] {
+    return this.host.players().filter(p => p.status === 'connected');
+  }
+
+  private startRound(now: number, active: PlayerState[]) {
+    this.phase = 'playing';
+    this.phaseEndsAt = now + this.options.duration;
+    this.scoresSentAt = now;
+    this.scores = new Map(this.host.players().map(p => [p.id, 0]));
+
+    this.host.broadcast({ type: 'round_started', payload: { remaining: this.options.duration } });
+    this.onRoundStart(now, active);
+    this.host.broadcast({ type: 'scores', payload: { scores: this.getScores() } });
+  }
+
+  // completed = false — раунд прервался: победителя нет, ждём игроков
+  private endRound(now: number, completed: boolean) {
+    const scores = this.getScores();
+    this.lastResult = { winner: completed ? scores[0] : undefined, scores };
+    this.onRoundEnd?.();
+
+    if (completed) {
+      this.phase = 'intermission';
+      this.phaseEndsAt = now + this.options.intermission;
+      this.host.broadcast({
+        type: 'round_ended',
+        payload: { ...this.lastResult, nextRoundIn: this.options.intermission },
+      });
+    } else {
+      this.phase = 'waiting';
+      this.host.broadcast({ type: 'round_ended', payload: this.lastResult });
+    }
+  }
+
+  // Счёт по убыванию; очки округляем вниз до целых
+  private getScores(): ScoreEntry[] {
+    const names = new Map(this.host.players().map(p => [p.id, p.name]));
+    return Array.from(this.scores, ([playerId, score]) => ({
+      playerId,
+      name: names.get(playerId) ?? playerId,
+      score: Math.floor(score),
+    })).sort((a, b) => b.score - a.score);
+  }
+}
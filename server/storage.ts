@@ -0,0 +1,206 @@
+import { promises as fs, readFileSync } from 'fs';
+import { dirname } from 'path';
+import { SupabaseStorage } from './supabase';
+import { metrics } from './metrics';
+
+// Хранилище данных игры. Сервер — единственный, кто с ним работает:
+// браузер получает всё через WebSocket. Бэкенд выбирается переменной STORAGE
+// (memory | file | supabase); по умолчанию Supabase, если он настроен, иначе файл.
+
+// Профиль игрока: выбранные имя и цвет и последняя позиция в мире.
+// Переживает выход из игры — при следующем входе игрок продолжает с того же места
+export interface StoredPlayer {
+  id: string;
+  name: string;
+  color: string;
+  x: number;
+  y: number;
+}
+
+export type PlayerChanges = Partial<Omit<StoredPlayer, 'id'>>;
+
+// Очки игрока за всё время. Хранятся отдельно от профилей, чтобы таблицу
+// рекордов можно было читать без данных о позициях
+export interface StoredScore {
+  playerId: string;
+  name: string;
+  score: number;
+}
+
+// Учётная запись локального входа (см. shared/auth.ts). Имя хранится нормализованным,
+// пароль — только в виде хеша (см. auth.ts)
+export interface StoredAccount {
+  id: string;
+  username: string;
+  passwordHash: string;
+}
+
+export interface GameStorage {
+  // Добавляет игрока или перезаписывает существующую запись
+  addPlayer(player: StoredPlayer): Promise<void>;
+  updatePlayer(id: string, changes: PlayerChanges): Promise<void>;
+  removePlayer(id: string): Promise<void>;
+  getPlayer(id: string): Promise<StoredPlayer | null>;
+  listPlayers(): Promise<StoredPlayer[]>;
+  // Прибавляет очки (и запоминает последнее имя), возвращает новый итог
+  addScore(playerId: string, name: string, points: number): Promise<number>;
+  getScore(playerId: string): Promise<number>;
+  // Лучшие игроки по убыванию очков
+  getLeaderboard(limit: number): Promise<StoredScore[]>;
+  // Создаёт учётную запись; false — имя уже занято
+  addAccount(account: StoredAccount): Promise<boolean>;
+  findAccount(username: string): Promise<StoredAccount | null>;
+}
+
+export type StorageBackend = 'memory' | 'file' | 'supabase';
+
+const DEFAULT_STORAGE_FILE = 'data/game.json';
+
+// Данные живут только в памяти процесса — для тестов и быстрых запусков
+export class MemoryStorage implements GameStorage {
+  protected players: Map<string, StoredPlayer> = new Map();
+  protected scores: Map<string, StoredScore> = new Map();
+  // Учётные записи по имени пользователя
+  protected accounts: Map<string, StoredAccount> = new Map();
+
+  async addPlayer(player: StoredPlayer) {
+    this.players.set(player.id, { ...player });
+    this.changed();
+  }
+
+  async updatePlayer(id: string, changes: PlayerChanges) {
+    const player = this.players.get(id);
+    if (!player) return;
+    Object.assign(player, changes);
+    this.changed();
+  }
+
+  async removePlayer(id: string) {
+    if (this.players.delete(id)) this.changed();
+  }
+
+  async getPlayer(id: string) {
+    const player = this.players.get(id);
+    return player ? { ...player } : null;
+  }
+
+  async listPlayers() {
+    return Array.from(this.players.values(), player => ({ ...player }));
+  }
+
+  async addScore(playerId: string, name: string, points: number) {
+    const entry = this.scores.get(playerId) ?? { playerId, name, score: 0 };
+    entry.name = name;
+    entry.score += points;
+    this.scores.set(playerId, entry);
+    this.changed();
+    return entry.score;
+  }
+
+  async getScore(playerId: string) {
+    return this.scores.get(playerId)?.score ?? 0;
+  }
+
+  async getLeaderboard(limit: number) {
+    return Array.from(this.scores.values(), entry => ({ ...entry }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async addAccount(account: StoredAccount) {
+    if (this.accounts.has(account.username)) return false;
+    this.accounts.set(account.username, { ...account });
+    this.changed();
+    return true;
+  }
+
+  async findAccount(username: string) {
+    const account = this.accounts.get(username);
+    return account ? { ...account } : null;
+  }
+
+  // Точка расширения для наследников, которым нужно сохранять изменения
+  protected changed() {}
+}
+
+interface StorageFile {
+  players: StoredPlayer[];
+  scores?: StoredScore[];
+  accounts?: StoredAccount[];
+}
+
+// Данные в памяти с записью в JSON-файл. Запись атомарная (через временный файл),
+// а частые изменения склеиваются в одну запись.
+export class FileStorage extends MemoryStorage {
+  private writing: Promise<void> = Promise.resolve();
+  private dirty = false;
+
+  constructor(private path: string) {
+    super();
+    this.load();
+  }
+
+  private load() {
+    let raw: string;
+    try {
+      raw = readFileSync(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    const data = JSON.parse(raw) as Partial<StorageFile>;
+    data.players?.forEach(player => this.players.set(player.id, player));
+    data.scores?.forEach(entry => this.scores.set(entry.playerId, entry));
+    data.accounts?.forEach(account => this.accounts.set(account.username, account));
+  }
+
+  protected changed() {
+    if (this.dirty) return;
+    this.dirty = true;
+    this.writing = this.writing.then(() => this.flush());
+  }
+
+  private async flush() {
+    this.dirty = false;
+    const data: StorageFile = {
+      players: Array.from(this.players.values()),
+      scores: Array.from(this.scores.values()),
+      accounts: Array.from(this.accounts.values()),
+    };
+    const tmpPath = `${this.path}.tmp`;
+    try {
+      await fs.mkdir(dirname(this.path), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(data, null, 2));
+      await fs.rename(tmpPath, this.path);
+    } catch (error) {
+      console.error(`Failed to write storage file ${this.path}:`, error);
+      metrics.storageError('write_file');
+    }
+  }
+}
+
+const resolveBackend = (): StorageBackend => {
+  const backend = process.env.STORAGE;
+  if (backend === 'memory' || backend === 'file' || backend === 'supabase') return backend;
+  if (backend) {
+    throw new Error(`Unknown STORAGE backend "${backend}" (expected memory, file or supabase)`);
+  }
+  return process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY ? 'supabase' : 'file';
+};
+
+export const createStorage = (): GameStorage => {
+  const backend = resolveBackend();
+  switch (backend) {
+    case 'memory':
+      console.log('Storage: in-memory');
+      return new MemoryStorage();
+    case 'file': {
+      const path = process.env.STORAGE_FILE || DEFAULT_STORAGE_FILE;
+      console.log(`Storage: file ${path}`);
+      return new FileStorage(path);
+    }
+    case 'supabase':
+      console.log('Storage: Supabase');
+      return new SupabaseStorage();
+  }
+};
@@ -1,24 +1,141 @@
-import { createClient } from '@supabase/supabase-js';
-import 'dotenv/config'; // Убедитесь, что dotenv установлен
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { GameStorage, PlayerChanges, StoredAccount, StoredPlayer, StoredScore } from './storage';
 
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
+// Хранилище в таблицах players, player_scores и accounts Supabase (см. supabase/migrations).
+// Сервер ходит в базу с сервисным ключом; браузеру доступ к ней не нужен.
+export class SupabaseStorage implements GameStorage {
+  private supabase: SupabaseClient;
 
-if (!supabaseUrl || !supabaseKey) {
-  throw new Error('Supabase URL or Service Key is missing in .env file');
-}
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
+
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Supabase URL or Service Key is missing in .env file');
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseKey);
+  }
+
+  async addPlayer(player: StoredPlayer) {
+    const { error } = await this.supabase
+      .from('players')
+      .upsert([toRow(player)]);
+
+    if (error) throw error;
+  }
+
+  async updatePlayer(id: string, changes: PlayerChanges) {
+    const { error } = await this.supabase
+      .from('players')
+      .update(toRow(changes))
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async removePlayer(id: string) {
+    const { error } = await this.supabase
+      .from('players')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async getPlayer(id: string) {
+    const { data, error } = await this.supabase
+      .from('players')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as StoredPlayer | null;
+  }
+
+  async listPlayers() {
+    const { data, error } = await this.supabase
+      .from('players')
+      .select('*');
+
+    if (error) throw error;
+    return data as StoredPlayer[];
+  }
+
+  // Прибавление делает функция в базе, чтобы одновременные подборы не теряли очки
+  async addScore(playerId: string, name: string, points: number) {
+    const { data, error } = await this.supabase
+      .rpc('add_player_score', { p_player_id: playerId, p_name: name, p_points: points });
+
+    if (error) throw error;
+    return data as number;
+  }
+
+  async getScore(playerId: string) {
+    const { data, error } = await this.supabase
+      .from('player_scores')
+      .select('score')
+      .eq('player_id', playerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data?.score as number | undefined) ?? 0;
+  }
+
+  async getLeaderboard(limit: number) {
+    const { data, error } = await this.supabase
+      .from('player_scores')
+      .select('player_id, name, score')
+      .order('score', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data as ScoreRow[]).map(fromScoreRow);
+  }
+
+  async addAccount(account: StoredAccount) {
+    const { error } = await this.supabase
+      .from('accounts')
+      .insert([{ id: account.id, username: account.username, password_hash: account.passwordHash }]);
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+    // Нарушение уникальности имени — имя занято
+    if (error?.code === UNIQUE_VIOLATION) return false;
+    if (error) throw error;
+    return true;
+  }
 
-export const removePlayer = async (id: string): Promise<void> => {
-  const { error } = await supabase
-    .from('players')
-    .delete()
-    .eq('id', id);
+  async findAccount(username: string) {
+    const { data, error } = await this.supabase
+      .from('accounts')
+      .select('id, username, password_hash')
+      .eq('username', username)
+      .maybeSingle();
 
-  if (error) {
-    console.error(`Error removing player ${id}:`, error);
-  } else {
-    console.log(`Player ${id} removed from database.`);
+    if (error) throw error;
+    if (!data) return null;
+    return { id: data.id as string, username: data.username as string, passwordHash: data.password_hash as string };
   }
-};
\ No newline at end of file
+}
+
+// Код ошибки PostgreSQL unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+interface ScoreRow {
+  player_id: string;
+  name: string;
+  score: number;
+}
+
+const fromScoreRow = (row: ScoreRow): StoredScore => ({
+  playerId: row.player_id,
+  name: row.name,
+  score: row.score,
+});
+
+// Координаты в таблице целочисленные
+const toRow = <T extends PlayerChanges>(player: T): T => ({
+  ...player,
+  ...(player.x !== undefined && { x: Math.floor(player.x) }),
+  ...(player.y !== undefined && { y: Math.floor(player.y) }),
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_GAME_CONFIG } from '../shared/movement';
+import { PlayerState, ServerMessage } from '../shared/protocol';
+import { TAG_COOLDOWN } from '../shared/tag';
+import { ModeHost } from './modes';
+import { TagMode } from './tag';
+
+const createPlayer = (id: string, x: number, y: number): PlayerState => ({
+  id, handle: 0, name: id, color: '#ffffff', x, y, status: 'connected',
+});
+
+describe('TagMode', () => {
+  let players: PlayerState[];
+  let broadcasts: ServerMessage[];
+  let mode: TagMode;
+
+  const player = (id: string) => players.find(p => p.id === id)!;
+  const lastScores = () => {
+    const message = broadcasts.filter(m => m.type === 'scores').pop();
+    const scores = message?.type === 'scores' ? message.payload.scores : [];
+    return Object.fromEntries(scores.map(entry => [entry.playerId, entry.score]));
+  };
+  const tags = () => broadcasts.filter(m => m.type === 'it_changed' && m.payload.taggerId);
+
+  beforeEach(() => {
+    // Водящим в начале раунда становится первый игрок
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    players = [createPlayer('a', 0, 0), createPlayer('b', 50, 50), createPlayer('c', 100, 100)];
+    broadcasts = [];
+    const host: ModeHost = {
+      config: DEFAULT_GAME_CONFIG,
+      players: () => players,
+      nearby: () => players,
+      broadcast: (message) => broadcasts.push(message),
+      send: () => {},
+    };
+    mode = new TagMode(host);
+    mode.start();
+    mode.tick(0, 0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('starts a round with the first player as it', () => {
+    expect(broadcasts).toContainEqual({ type: 'it_changed', payload: { playerId: 'a' } });
+  });
+
+  it('does not score players waiting to reconnect', () => {
+    player('c').status = 'reconnecting';
+    mode.tick(1000, 1000);
+    expect(lastScores()).toEqual({ a: 0, b: 1, c: 0 });
+
+    player('c').status = 'connected';
+    mode.tick(2000, 1000);
+    expect(lastScores()).toEqual({ a: 0, b: 2, c: 1 });
+  });
+
+  it('does not tag players waiting to reconnect', () => {
+    Object.assign(player('c'), { x: 0.5, y: 0, status: 'reconnecting' });
+    mode.tick(TAG_COOLDOWN, 0);
+    expect(tags()).toHaveLength(0);
+
+    player('c').status = 'connected';
+    mode.tick(TAG_COOLDOWN + 1, 0);
+    expect(tags()).toEqual([{ type: 'it_changed', payload: { playerId: 'c', taggerId: 'a' } }]);
+  });
+
+  it('does not let it tag while waiting to reconnect', () => {
+    player('a').status = 'reconnecting';
+    Object.assign(player('b'), { x: 0.5, y: 0 });
+    mode.tick(TAG_COOLDOWN, 0);
+    expect(tags()).toHaveLength(0);
+  });
+
+  it('passes it to an active player when it starts waiting to reconnect', () => {
+    player('a').status = 'reconnecting';
+    mode.tick(1000, 1000);
+    expect(broadcasts).toContainEqual({ type: 'it_changed', payload: { playerId: 'b' } });
+    expect(lastScores()).toEqual({ a: 0, b: 0, c: 1 });
+
+    // Новый водящий салит как обычно
+    Object.assign(player('c'), { x: 50.5, y: 50 });
+    mode.tick(1000 + TAG_COOLDOWN, 0);
+    expect(tags()).toEqual([{ type: 'it_changed', payload: { playerId: 'c', taggerId: 'b' } }]);
+  });
+});
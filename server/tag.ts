@@ -0,0 +1,76 @@
+import { PlayerState } from '../shared/protocol';
+import {
+  isTouching, TAG_COOLDOWN, TAG_INTERMISSION, TAG_MIN_PLAYERS, TAG_REACH, TAG_ROUND_DURATION,
+} from '../shared/tag';
+import { ModeHost } from './modes';
+import { RoundMode } from './rounds';
+
+// «Салки»: очки (секунды) начисляются всем, кроме водящего, за каждый тик раунда
+export class TagMode extends RoundMode {
+  readonly name = 'tag';
+
+  private itPlayerId: string | null = null;
+  // Когда роль водящего переходила последний раз
+  private taggedAt = 0;
+
+  constructor(host: ModeHost) {
+    super(host, { duration: TAG_ROUND_DURATION, intermission: TAG_INTERMISSION, minPlayers: TAG_MIN_PLAYERS });
+  }
+
+  playerJoined(playerId: string, now: number) {
+    super.playerJoined(playerId, now);
+    if (this.phase === 'playing' && this.itPlayerId) {
+      this.host.send(playerId, { type: 'it_changed', payload: { playerId: this.itPlayerId } });
+    }
+  }
+
+  protected onRoundStart(now: number, active: PlayerState[]) {
+    this.setIt(active[Math.floor(Math.random() * active.length)].id, now);
+  }
+
+  // Очки идут только тем, кто в игре: ждущий переподключения не может убегать
+  protected onTick(now: number, elapsed: number) {
+    const active = new Set(this.getActivePlayers().map(p => p.id));
+    // Водящий, ждущий переподключения, никого не осалит, и раунд бы встал
+    if (this.itPlayerId && !active.has(this.itPlayerId)) this.passIt(this.itPlayerId, now);
+    this.scores.forEach((score, playerId) => {
+      if (playerId !== this.itPlayerId && active.has(playerId)) this.scores.set(playerId, score + elapsed / 1000);
+    });
+    this.checkTag(now);
+  }
+
+  protected onPlayerLeft(playerId: string, now: number) {
+    if (playerId === this.itPlayerId) this.passIt(playerId, now);
+  }
+
+  protected onRoundEnd() {
+    this.itPlayerId = null;
+  }
+
+  // Водящий осаливает первого, кого касается. Игроки, ждущие переподключения,
+  // в салках не участвуют: их нельзя осалить, и сами они, стоя на месте, не осаливают
+  private checkTag(now: number) {
+    if (now - this.taggedAt < TAG_COOLDOWN) return;
+    const it = this.host.players().find(p => p.id === this.itPlayerId);
+    if (!it || it.status !== 'connected') return;
+
+    const { config } = this.host;
+    const target = this.host.nearby(it, config.playerSize + TAG_REACH).find(other =>
+      other.id !== it.id && other.status === 'connected' && isTouching(it, other, config)
+    );
+    if (target) this.setIt(target.id, now, it.id);
+  }
+
+  // Водящий выбыл — роль достаётся случайному из тех, кто в игре
+  private passIt(playerId: string, now: number) {
+    const candidates = this.getActivePlayers().filter(p => p.id !== playerId);
+    if (candidates.length === 0) return;
+    this.setIt(candidates[Math.floor(Math.random() * candidates.length)].id, now);
+  }
+
+  private setIt(playerId: string, now: number, taggerId?: string) {
+    this.itPlayerId = playerId;
+    this.taggedAt = now;
+    this.host.broadcast({ type: 'it_changed', payload: { playerId, taggerId } });
+  }
+}
@@ -0,0 +1,40 @@
+// Учётные записи и вход. Браузер получает подписанный сервером токен сессии
+// по HTTP (POST /auth/...) и передаёт его при подключении к WebSocket в параметре token.
+// Идентификатор игрока сервер берёт из проверенного токена, а не из того, что прислал клиент.
+//
+// Способы входа:
+// - local — имя пользователя и пароль, учётные записи хранит сам игровой сервер;
+// - supabase — вход через Supabase Auth: клиент получает access token у Supabase,
+//   а сервер проверяет его и выдаёт свой токен сессии (игрок = пользователь Supabase).
+
+export type AuthProvider = 'local' | 'supabase';
+
+export const AUTH_PATHS = {
+  register: '/auth/register',
+  login: '/auth/login',
+  supabase: '/auth/supabase',
+} as const;
+
+export const USERNAME_PATTERN = /^[a-z0-9_-]{3,20}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 128;
+
+// Имена пользователей не зависят от регистра
+export const normalizeUsername = (username: string): string => username.trim().toLowerCase();
+
+// Ответ сервера на успешный вход или регистрацию
+export interface AuthSession {
+  token: string;
+  playerId: string;
+  username: string;
+  provider: AuthProvider;
+  // Когда токен перестанет приниматься сервером (мс с начала эпохи)
+  expiresAt: number;
+}
+
+export type AuthErrorCode = 'invalid_request' | 'invalid_credentials' | 'username_taken' | 'provider_disabled' | 'rate_limited';
+
+// Ответ сервера на неудачный запрос
+export interface AuthErrorResponse {
+  error: { code: AuthErrorCode; message: string };
+}
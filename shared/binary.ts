@@ -0,0 +1,99 @@
+// Компактный бинарный формат для снимков мира.
+// Вместо JSON сервер шлёт один кадр за снимок со всеми изменившимися
+// игроками. Игроки адресуются короткими числовыми handle, которые сервер
+// выдаёт при входе в комнату (см. PlayerState.handle).
+//
+// Формат кадра (little-endian):
+//   u8  тип кадра (BinaryFrameType)
+//   u32 номер тика, u32 время сервера в мс
+//   u16 количество записей
+//   записи по ENTITY_ENTRY_SIZE байт:
+//     u16 handle, u16 x, u16 y, u32 seq
+// Координаты квантуются с шагом 1 / POSITION_SCALE единицы поля, поэтому мир
+// не может быть больше MAX_ENCODED_POSITION единиц по каждой оси.
+
+import { ProtocolError } from './protocol';
+
+export const BinaryFrameType = {
+  Snapshot: 2,
+} as const;
+
+export const POSITION_SCALE = 32;
+export const MAX_HANDLE = 0xffff;
+
+const HEADER_SIZE = 11;
+const ENTITY_ENTRY_SIZE = 10;
+const MAX_QUANTIZED = 0xffff;
+
+// Наибольшая координата, которую можно передать без обрезки
+export const MAX_ENCODED_POSITION = Math.floor(MAX_QUANTIZED / POSITION_SCALE);
+
+export interface BinaryEntity {
+  handle: number;
+  x: number;
+  y: number;
+  seq: number;
+}
+
+export interface BinarySnapshot {
+  tick: number;
+  time: number;
+  entities: BinaryEntity[];
+}
+
+const quantize = (value: number): number =>
+  Math.min(MAX_QUANTIZED, Math.max(0, Math.round(value * POSITION_SCALE)));
+
+export const encodeSnapshot = (snapshot: BinarySnapshot): Uint8Array => {
+  const { tick, time, entities } = snapshot;
+  const buffer = new ArrayBuffer(HEADER_SIZE + entities.length * ENTITY_ENTRY_SIZE);
+  const view = new DataView(buffer);
+  view.setUint8(0, BinaryFrameType.Snapshot);
+  view.setUint32(1, tick, true);
+  view.setUint32(5, time, true);
+  view.setUint16(9, entities.length, true);
+
+  entities.forEach((entity, index) => {
+    const offset = HEADER_SIZE + index * ENTITY_ENTRY_SIZE;
+    view.setUint16(offset, entity.handle, true);
+    view.setUint16(offset + 2, quantize(entity.x), true);
+    view.setUint16(offset + 4, quantize(entity.y), true);
+    view.setUint32(offset + 6, entity.seq, true);
+  });
+
+  return new Uint8Array(buffer);
+};
+
+export const decodeSnapshot = (buffer: ArrayBuffer): BinarySnapshot => {
+  if (buffer.byteLength < HEADER_SIZE) {
+    throw new ProtocolError('invalid_message', 'binary frame is too short');
+  }
+
+  const view = new DataView(buffer);
+  const type = view.getUint8(0);
+  if (type !== BinaryFrameType.Snapshot) {
+    throw new ProtocolError('unknown_type', `unknown binary frame type ${type}`);
+  }
+
+  const count = view.getUint16(9, true);
+  if (buffer.byteLength !== HEADER_SIZE + count * ENTITY_ENTRY_SIZE) {
+    throw new ProtocolError('invalid_message', 'binary frame length does not match entry count');
+  }
+
+  const entities: BinaryEntity[] = [];
+  for (let index = 0; index < count; index++) {
+    const offset = HEADER_SIZE + index * ENTITY_ENTRY_SIZE;
+    entities.push({
+      handle: view.getUint16(offset, true),
+      x: view.getUint16(offset + 2, true) / POSITION_SCALE,
+      y: view.getUint16(offset + 4, true) / POSITION_SCALE,
+      seq: view.getUint32(offset + 6, true),
+    });
+  }
+
+  return {
+    tick: view.getUint32(1, true),
+    time: view.getUint32(5, true),
+    entities,
+  };
+};
@@ -0,0 +1,87 @@
+// Общая доска для рисования: сетка клеток размером с игровое поле,
+// в каждой клетке — индекс цвета палитры (0 — пустая клетка).
+// Новичку доска приходит целиком в 'game_state' в сжатом виде,
+// дальше сервер рассылает только изменившиеся клетки ('pixels').
+//
+// Сжатие — RLE поверх байтов с base64: пары (длина серии − 1, цвет).
+// Доска в основном пустая или залита крупными пятнами, так что серии длинные.
+
+import { GameConfig } from './movement';
+import { ProtocolError } from './protocol';
+
+export const PALETTE = [
+  '', // пустая клетка
+  '#ffffff', '#e4e4e4', '#888888', '#222222',
+  '#ffa7d1', '#e50000', '#e59500', '#a06a42',
+  '#e5d900', '#94e044', '#02be01', '#00d3dd',
+  '#0083c7', '#0000ea', '#cf6ee4', '#820080',
+];
+export const EMPTY_PIXEL = 0;
+
+// Минимальный интервал между закрашиваниями одного игрока, мс
+export const PAINT_COOLDOWN = 250;
+
+const MAX_RUN = 256;
+
+export interface Pixel {
+  x: number;
+  y: number;
+  color: number;
+}
+
+export interface BoardSize {
+  width: number;
+  height: number;
+}
+
+export const getBoardSize = (config: GameConfig): BoardSize => ({
+  width: Math.floor(config.fieldWidth),
+  height: Math.floor(config.fieldHeight),
+});
+
+export const isValidPixel = ({ x, y, color }: Pixel, size: BoardSize): boolean =>
+  Number.isInteger(x) && Number.isInteger(y) && Number.isInteger(color) &&
+  x >= 0 && x < size.width && y >= 0 && y < size.height &&
+  color >= 0 && color < PALETTE.length;
+
+export const encodeBoard = (board: Uint8Array): string => {
+  const runs: number[] = [];
+  let index = 0;
+  while (index < board.length) {
+    const color = board[index];
+    let length = 1;
+    while (length < MAX_RUN && board[index + length] === color) length++;
+    runs.push(length - 1, color);
+    index += length;
+  }
+
+  let binary = '';
+  runs.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+export const decodeBoard = (encoded: string, size: BoardSize): Uint8Array => {
+  let binary: string;
+  try {
+    binary = atob(encoded);
+  } catch {
+    throw new ProtocolError('invalid_message', 'board is not valid base64');
+  }
+
+  const board = new Uint8Array(size.width * size.height);
+  let offset = 0;
+  for (let index = 0; index + 1 < binary.length; index += 2) {
+    const length = binary.charCodeAt(index) + 1;
+    const color = binary.charCodeAt(index + 1);
+    if (offset + length > board.length || color >= PALETTE.length) {
+      throw new ProtocolError('invalid_message', 'board does not match the field size');
+    }
+    board.fill(color, offset, offset + length);
+    offset += length;
+  }
+
+  if (offset !== board.length) {
+    throw new ProtocolError('invalid_message', 'board does not match the field size');
+  }
+  return board;
+};
@@ -0,0 +1,22 @@
+// Чат: общие для клиента и сервера константы и типы
+
+// global — все игроки комнаты, proximity — только те, кто рядом с отправителем
+export type ChatChannel = 'global' | 'proximity';
+export const CHAT_CHANNELS: ChatChannel[] = ['global', 'proximity'];
+
+export const MAX_CHAT_LENGTH = 200;
+// Радиус канала proximity в единицах поля (между центрами игроков)
+export const PROXIMITY_CHAT_RADIUS = 40;
+
+// Не больше CHAT_BURST сообщений подряд, дальше — одно в CHAT_REFILL_INTERVAL мс
+export const CHAT_BURST = 5;
+export const CHAT_REFILL_INTERVAL = 2000;
+
+export interface ChatEntry {
+  playerId: string;
+  name: string;
+  channel: ChatChannel;
+  text: string;
+  // Время сервера (Date.now()) в момент отправки
+  time: number;
+}
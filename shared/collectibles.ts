@@ -0,0 +1,24 @@
+// Предметы для сбора: сервер раскладывает их по свободным местам поля,
+// игрок подбирает предмет, задев его своим квадратом, и получает value очков.
+// Подобранный предмет появляется снова в другом месте через COLLECTIBLE_RESPAWN мс.
+// Очки копятся за всё время игры и хранятся на сервере (см. server/storage.ts).
+
+export interface Collectible {
+  id: number;
+  // Левый верхний угол, в единицах поля
+  x: number;
+  y: number;
+  value: number;
+}
+
+// Сторона квадрата предмета в единицах поля
+export const COLLECTIBLE_SIZE = 1;
+export const COLLECTIBLES_PER_ROOM = 20;
+export const COLLECTIBLE_RESPAWN = 10_000;
+// Обычный предмет и редкий (золотой), который выпадает с вероятностью RARE_COLLECTIBLE_CHANCE
+export const COLLECTIBLE_VALUE = 1;
+export const RARE_COLLECTIBLE_VALUE = 5;
+export const RARE_COLLECTIBLE_CHANCE = 0.1;
+
+// Сколько лучших игроков показывать в таблице рекордов
+export const LEADERBOARD_SIZE = 10;
@@ -0,0 +1,94 @@
+// Карта из тайлов: стены, пол и точки появления.
+// Сервер читает описание карты из JSON-файла и отправляет его клиентам в 'game_state';
+// обе стороны строят из него TileMap и используют одну и ту же проверку столкновений.
+//
+// Формат описания — строки одинаковой длины, по символу на тайл:
+//   '#' — стена, '.' — пол, 'S' — пол с точкой появления.
+// Размер тайла задаётся в единицах поля; размер мира определяется картой (withWorldSize).
+
+import { GameConfig, Position } from './movement';
+
+export interface MapDefinition {
+  name: string;
+  tileSize: number;
+  rows: string[];
+}
+
+export interface TileMap {
+  name: string;
+  tileSize: number;
+  // Размер в тайлах
+  columns: number;
+  rows: number;
+  // true — стена, по строкам сверху вниз
+  walls: boolean[];
+  // Точки появления в координатах поля (левый верхний угол игрока)
+  spawns: Position[];
+  // Исходное описание — его сервер рассылает клиентам
+  definition: MapDefinition;
+}
+
+const WALL = '#';
+const FLOOR = '.';
+const SPAWN = 'S';
+
+export const createTileMap = (definition: MapDefinition, config: GameConfig): TileMap => {
+  const { name, tileSize, rows } = definition;
+  if (!(tileSize > 0)) throw new Error(`Map ${name}: tileSize must be positive`);
+  if (rows.length === 0) throw new Error(`Map ${name}: no rows`);
+
+  const columns = rows[0].length;
+
+  const walls: boolean[] = [];
+  const spawns: Position[] = [];
+  const offset = (tileSize - config.playerSize) / 2;
+
+  rows.forEach((row, y) => {
+    if (row.length !== columns) throw new Error(`Map ${name}: row ${y} has ${row.length} tiles, expected ${columns}`);
+    Array.from(row).forEach((tile, x) => {
+      if (tile !== WALL && tile !== FLOOR && tile !== SPAWN) {
+        throw new Error(`Map ${name}: unknown tile '${tile}' at ${x},${y}`);
+      }
+      walls.push(tile === WALL);
+      // Игрок появляется в центре тайла
+      if (tile === SPAWN) spawns.push({ x: x * tileSize + offset, y: y * tileSize + offset });
+    });
+  });
+
+  if (spawns.length === 0) throw new Error(`Map ${name}: no spawn points`);
+
+  return { name, tileSize, columns, rows: rows.length, walls, spawns, definition };
+};
+
+// Размер мира в единицах поля
+export const getMapSize = ({ tileSize, rows }: MapDefinition): { width: number; height: number } => ({
+  width: (rows[0]?.length ?? 0) * tileSize,
+  height: rows.length * tileSize,
+});
+
+// Конфигурация с размером поля, равным размеру карты
+export const withWorldSize = (config: GameConfig, map: TileMap): GameConfig => {
+  const { width, height } = getMapSize(map.definition);
+  return { ...config, fieldWidth: width, fieldHeight: height };
+};
+
+// Тайлы за пределами карты считаются стенами
+export const isWall = (map: TileMap, column: number, row: number): boolean =>
+  column < 0 || row < 0 || column >= map.columns || row >= map.rows || map.walls[row * map.columns + column];
+
+// Пересекает ли квадрат игрока хотя бы одну стену
+export const collidesWithWalls = (map: TileMap, position: Position, size: number): boolean => {
+  const { tileSize } = map;
+  // Правая и нижняя граница исключаются: игрок, стоящий вплотную к стене, её не задевает
+  const firstColumn = Math.floor(position.x / tileSize);
+  const lastColumn = Math.ceil((position.x + size) / tileSize) - 1;
+  const firstRow = Math.floor(position.y / tileSize);
+  const lastRow = Math.ceil((position.y + size) / tileSize) - 1;
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      if (isWall(map, column, row)) return true;
+    }
+  }
+  return false;
+};
@@ -0,0 +1,22 @@
+// Игровые режимы: общие для клиента и сервера имена, типы и константы.
+// Режим выбирается при создании комнаты и живёт, пока живёт комната.
+// Сервер реализует правила режима (server/modes.ts), клиент — его отображение (src/modes).
+//
+// Режимы с раундами используют общий жизненный цикл: ожидание игроков → раунд →
+// пауза → следующий раунд. О нём сообщают 'round_started', 'scores' и 'round_ended'.
+
+export type GameModeName = 'free-roam' | 'tag';
+export const GAME_MODES: GameModeName[] = ['free-roam', 'tag'];
+export const DEFAULT_GAME_MODE: GameModeName = 'free-roam';
+
+// waiting — игроков меньше, чем нужно для раунда; intermission — пауза между раундами
+export type RoundPhase = 'waiting' | 'playing' | 'intermission';
+
+export interface ScoreEntry {
+  playerId: string;
+  name: string;
+  score: number;
+}
+
+export const isGameMode = (value: string): value is GameModeName =>
+  (GAME_MODES as string[]).includes(value);
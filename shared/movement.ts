@@ -0,0 +1,157 @@
+// Общая логика движения: используется и сервером (авторитетная симуляция),
+// и клиентом (предсказание). Любое расхождение здесь приведёт к рывкам при
+// сверке, поэтому шаг симуляции должен оставаться детерминированным.
+
+import { collidesWithWalls, TileMap } from './map';
+
+// Столкновения между игроками: нет, упираются друг в друга, или толкают
+export type PlayerCollision = 'off' | 'block' | 'push';
+export const PLAYER_COLLISIONS: PlayerCollision[] = ['off', 'block', 'push'];
+
+export interface GameConfig {
+  fieldWidth: number;
+  fieldHeight: number;
+  playerSize: number;
+  moveSpeed: number;
+  playerCollision: PlayerCollision;
+}
+
+// Конфигурацию комнаты задаёт сервер (см. server/config.ts) и присылает в 'game_state';
+// значения по умолчанию — основа для его настроек
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  fieldWidth: 200,
+  fieldHeight: 150,
+  playerSize: 1,
+  // Скорость в единицах поля за один тик симуляции
+  moveSpeed: 0.8,
+  playerCollision: 'push',
+};
+
+// Частота фиксированного шага симуляции
+export const TICK_RATE = 60;
+export const TICK_INTERVAL = 1000 / TICK_RATE;
+
+export interface MovementState {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+}
+
+// Намерение игрока на один тик. seq растёт монотонно и служит для подтверждения.
+export interface MovementInput extends MovementState {
+  seq: number;
+}
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export const getCenterPosition = (config: GameConfig): Position => {
+  return {
+    x: Math.floor(config.fieldWidth / 2),
+    y: Math.floor(config.fieldHeight / 2),
+  };
+};
+
+export const hasMovement = (state: MovementState): boolean =>
+  state.up || state.down || state.left || state.right;
+
+// Один шаг симуляции без учёта других игроков
+export const applyInput = (
+  position: Position,
+  input: MovementState,
+  config: GameConfig,
+  map: TileMap | null = null
+): Position => stepPlayer(position, input, config, map, []).position;
+
+export interface StepResult {
+  position: Position;
+  // Новые позиции вытолкнутых игроков по индексу в others
+  pushed: Map<number, Position>;
+}
+
+type Axis = 'x' | 'y';
+
+export const boxesOverlap = (a: Position, b: Position, size: number): boolean =>
+  a.x < b.x + size && b.x < a.x + size && a.y < b.y + size && b.y < a.y + size;
+
+// Один шаг симуляции: применяет ввод к позиции с учётом границ поля, стен карты
+// и других игроков (others). В режиме 'push' игрок толкает тех, в кого упирается;
+// вытолкнутые сами упираются в стены и третьих игроков, но дальше никого не толкают.
+export const stepPlayer = (
+  position: Position,
+  input: MovementState,
+  config: GameConfig,
+  map: TileMap | null,
+  others: Position[]
+): StepResult => {
+  const { moveSpeed, fieldWidth, fieldHeight, playerSize, playerCollision } = config;
+  const bodies = others.map(({ x, y }) => ({ x, y }));
+  const pushed = new Map<number, Position>();
+  const fieldLimit = { x: fieldWidth - playerSize, y: fieldHeight - playerSize };
+
+  // Сдвиг тела по оси до target с остановкой у стен и у других тел.
+  // self — индекс тела в bodies (-1 для самого игрока), canPush — можно ли толкать.
+  const slide = (from: Position, target: number, axis: Axis, self: number, canPush: boolean): number => {
+    const clamped = Math.min(fieldLimit[axis], Math.max(0, target));
+    let limit = map ? resolveAxis(map, playerSize, from, { ...from, [axis]: clamped }, axis) : clamped;
+    if (playerCollision === 'off') return limit;
+
+    const direction = Math.sign(limit - from[axis]);
+    if (direction === 0) return limit;
+
+    bodies.forEach((body, index) => {
+      // С теми, с кем уже пересекаемся, даём разойтись
+      if (index === self || boxesOverlap(from, body, playerSize)) return;
+      if (!boxesOverlap({ ...from, [axis]: limit }, body, playerSize)) return;
+
+      // На сколько нужно сдвинуть body, чтобы освободить место
+      const needed = direction > 0 ? limit + playerSize - body[axis] : body[axis] + playerSize - limit;
+      let shift = 0;
+      if (canPush) {
+        const moved = slide(body, body[axis] + direction * needed, axis, index, false);
+        shift = Math.abs(moved - body[axis]);
+        if (shift > 0) {
+          body[axis] = moved;
+          pushed.set(index, { ...body });
+        }
+      }
+      limit -= direction * (needed - shift);
+    });
+    return limit;
+  };
+
+  const canPush = playerCollision === 'push';
+  let { x, y } = position;
+
+  // Оси обрабатываются по очереди, чтобы вдоль стен и игроков можно было скользить
+  if (input.up || input.down) {
+    let nextY = y;
+    if (input.up) nextY -= moveSpeed;
+    if (input.down) nextY += moveSpeed;
+    y = slide({ x, y }, nextY, 'y', -1, canPush);
+  }
+  if (input.left || input.right) {
+    let nextX = x;
+    if (input.left) nextX -= moveSpeed;
+    if (input.right) nextX += moveSpeed;
+    x = slide({ x, y }, nextX, 'x', -1, canPush);
+  }
+
+  return { position: { x, y }, pushed };
+};
+
+// Сдвиг по одной оси: упёршись в стену, игрок встаёт вплотную к границе тайла
+const resolveAxis = (map: TileMap, size: number, from: Position, to: Position, axis: Axis): number => {
+  if (!collidesWithWalls(map, to, size)) return to[axis];
+
+  const { tileSize } = map;
+  const start = from[axis];
+  const edge = to[axis] > start
+    ? Math.ceil((start + size) / tileSize) * tileSize - size
+    : Math.floor(start / tileSize) * tileSize;
+  const snapped = { ...from, [axis]: edge };
+  return collidesWithWalls(map, snapped, size) ? start : edge;
+};
@@ -0,0 +1,951 @@
+// Единое описание протокола WebSocket: типы всех сообщений и их проверка
+// во время выполнения. Используется и сервером, и клиентом.
+
+import { GameConfig, MovementInput, PLAYER_COLLISIONS, PlayerCollision } from './movement';
+import { RoomInfo, MAX_ROOM_NAME_LENGTH } from './rooms';
+import { CHAT_CHANNELS, ChatChannel, ChatEntry, MAX_CHAT_LENGTH } from './chat';
+import { Pixel } from './board';
+import { MapDefinition } from './map';
+import { GAME_MODES, GameModeName, ScoreEntry } from './modes';
+import { Collectible } from './collectibles';
+
+// Увеличивается при любом несовместимом изменении формата сообщений
+export const PROTOCOL_VERSION = 20;
+
+// Сервер шлёт 'ping' с этим интервалом; после MAX_MISSED_HEARTBEATS
+// пропущенных ответов соединение считается мёртвым (с обеих сторон)
+export const HEARTBEAT_INTERVAL = 5000;
+export const MAX_MISSED_HEARTBEATS = 3;
+
+// Код закрытия WebSocket: токен сессии недействителен или истёк. Браузер не видит
+// HTTP-статус отклонённого рукопожатия, поэтому сервер принимает такое соединение
+// и сразу закрывает его с этим кодом. Переподключаться с тем же токеном бесполезно —
+// клиент забывает сессию и просит войти заново
+export const AUTH_FAILED_CLOSE_CODE = 4001;
+
+// Частота рассылки снимков мира (симуляция при этом идёт с TICK_RATE)
+export const SNAPSHOT_RATE = 20;
+export const SNAPSHOT_INTERVAL = 1000 / SNAPSHOT_RATE;
+
+// Частота рассылки 'minimap' — грубых позиций всех игроков комнаты для мини-карты
+export const MINIMAP_RATE = 1;
+
+// Область интереса: клиент знает только об игроках в пределах своей видимой области
+// (плюс запас). Об их появлении и исчезновении из виду сервер сообщает 'view_enter'
+// и 'view_leave', и только им шлёт позиции, входы, выходы и изменения игроков.
+// Видимая область клиента ограничена, чтобы нельзя было запросить весь мир.
+export const MAX_VIEW_WIDTH = 320;
+export const MAX_VIEW_HEIGHT = 240;
+
+// Кодировка снимков мира; выбирается при рукопожатии (см. binary.ts).
+// JSON остаётся запасным вариантом для отладки.
+export type WireEncoding = 'json' | 'binary';
+export const WIRE_ENCODINGS: WireEncoding[] = ['json', 'binary'];
+
+// Ограничения на входящие сообщения
+export const MAX_MESSAGE_SIZE = 16 * 1024;
+export const MAX_INPUTS_PER_MESSAGE = 32;
+export const MAX_PLAYER_NAME_LENGTH = 32;
+const MAX_ID_LENGTH = 64;
+const MAX_COLOR_LENGTH = 32;
+// Цвет, который игрок выбирает себе сам, — только #rrggbb
+export const PLAYER_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const MAX_ERROR_LENGTH = 256;
+export const MAX_ANNOUNCEMENT_LENGTH = 500;
+const MAX_MAP_ROWS = 1024;
+
+// reconnecting — соединение потеряно, игрок ждёт возобновления сессии
+export type PlayerStatus = 'connected' | 'reconnecting';
+const PLAYER_STATUSES: PlayerStatus[] = ['connected', 'reconnecting'];
+
+export interface PlayerState {
+  id: string;
+  // Короткий номер игрока в комнате для бинарных кадров
+  handle: number;
+  name: string;
+  color: string;
+  x: number;
+  y: number;
+  status: PlayerStatus;
+}
+
+// Состояние сущности в снимке. seq — номер последнего обработанного
+// ввода владельца (для сверки предсказания на клиенте)
+export interface EntityState {
+  playerId: string;
+  x: number;
+  y: number;
+  seq: number;
+}
+
+export type ErrorCode =
+  | 'invalid_message'
+  | 'payload_too_large'
+  | 'unknown_type'
+  | 'unsupported_version'
+  | 'handshake_required'
+  | 'room_full'
+  | 'session_conflict'
+  | 'rate_limited'
+  | 'muted';
+
+// Почему сервер отключил клиента: flooding — слишком много сообщений сверх лимитов,
+// invalid_messages — слишком много сообщений, не прошедших проверку, admin — решение администратора
+export type KickReason = 'flooding' | 'invalid_messages' | 'admin';
+const KICK_REASONS: KickReason[] = ['flooding', 'invalid_messages', 'admin'];
+
+// Нарушения движения, которые ловит сервер (см. server/anticheat.ts):
+// input_flood — вводов больше, чем успевает пройти реального времени;
+// invalid_position, out_of_bounds, speed, wall_clip — симуляция дала недопустимый шаг
+export type MovementViolation = 'input_flood' | 'invalid_position' | 'out_of_bounds' | 'speed' | 'wall_clip';
+const MOVEMENT_VIOLATIONS: MovementViolation[] = ['input_flood', 'invalid_position', 'out_of_bounds', 'speed', 'wall_clip'];
+
+// --- Сообщения клиента ---
+
+export type HelloMessage = {
+  type: 'hello';
+  // encodings — поддерживаемые клиентом кодировки в порядке предпочтения
+  payload: { version: number; encodings?: WireEncoding[] };
+};
+
+export type JoinGameMessage = {
+  type: 'player_joined';
+  payload: { id: string; name: string; color: string };
+};
+
+export type InputMessage = {
+  type: 'input';
+  payload: { inputs: MovementInput[] };
+};
+
+// Подтверждение полученного снимка: следующие придут дельтой относительно него
+export type SnapshotAckMessage = {
+  type: 'snapshot_ack';
+  payload: { tick: number };
+};
+
+// mode учитывается, только если комнаты ещё нет и она создаётся этим входом
+export type JoinRoomMessage = {
+  type: 'join_room';
+  payload: { room: string; mode?: GameModeName };
+};
+
+export type ListRoomsMessage = {
+  type: 'list_rooms';
+};
+
+export type RequestGameStateMessage = {
+  type: 'request_game_state';
+};
+
+// Смена имени и/или цвета: сервер сохраняет их в профиле и рассылает 'player_updated'
+export type UpdatePlayerMessage = {
+  type: 'update_player';
+  payload: { name?: string; color?: string };
+};
+
+export type SendChatMessage = {
+  type: 'chat';
+  payload: { channel: ChatChannel; text: string };
+};
+
+// Размер видимой клиенту области в единицах поля (меняется при зуме и ресайзе)
+export type ViewportMessage = {
+  type: 'viewport';
+  payload: { width: number; height: number };
+};
+
+// Закрасить клетку доски цветом из палитры (см. board.ts)
+export type PaintMessage = {
+  type: 'paint';
+  payload: Pixel;
+};
+
+// Действие, которое понимает только режим комнаты (см. server/modes.ts).
+// data режим проверяет сам.
+export type ModeActionMessage = {
+  type: 'mode_action';
+  payload: { action: string; data?: Record<string, unknown> };
+};
+
+export type PongMessage = {
+  type: 'pong';
+  payload: { seq: number };
+};
+
+// Намеренный выход: сервер удаляет игрока сразу, без периода ожидания
+export type LeaveMessage = {
+  type: 'leave';
+};
+
+export type ErrorMessage = {
+  type: 'error';
+  payload: { code: ErrorCode; message: string };
+};
+
+// Сервер отверг вводы игрока и вернул его на серверную позицию: клиент должен сбросить
+// предсказание и неподтверждённые вводы. seq — последний применённый сервером ввод
+export type CorrectionMessage = {
+  type: 'correction';
+  payload: { x: number; y: number; seq: number; reason: MovementViolation };
+};
+
+// Сервер отключает клиента и не переподключает его сам; retryAfter — через сколько мс
+// можно вернуться (до этого сервер отклоняет подключения с того же адреса и аккаунта)
+export type KickedMessage = {
+  type: 'kicked';
+  payload: { reason: KickReason; message: string; retryAfter?: number };
+};
+
+export type ClientMessage =
+  | HelloMessage
+  | JoinGameMessage
+  | InputMessage
+  | SnapshotAckMessage
+  | JoinRoomMessage
+  | ListRoomsMessage
+  | RequestGameStateMessage
+  | UpdatePlayerMessage
+  | SendChatMessage
+  | PaintMessage
+  | ViewportMessage
+  | ModeActionMessage
+  | PongMessage
+  | LeaveMessage
+  | ErrorMessage;
+
+// --- Сообщения сервера ---
+
+export type WelcomeMessage = {
+  type: 'welcome';
+  payload: { version: number; encoding: WireEncoding };
+};
+
+// Снимок мира: только сущности, изменившиеся после последнего подтверждённого
+// клиентом снимка. time — время сервера в мс, по нему клиент интерполирует.
+export type SnapshotMessage = {
+  type: 'snapshot';
+  payload: { tick: number; time: number; entities: EntityState[] };
+};
+
+export type PlayerJoinedMessage = {
+  type: 'player_joined';
+  payload: PlayerState;
+};
+
+export type PlayerLeftMessage = {
+  type: 'player_left';
+  payload: { playerId: string };
+};
+
+// Игроки, попавшие в область интереса клиента (пришли сами или пришёл к ним клиент)
+export type ViewEnterMessage = {
+  type: 'view_enter';
+  payload: { players: PlayerState[] };
+};
+
+// Игроки, покинувшие область интереса; клиент забывает о них до следующего 'view_enter'
+export type ViewLeaveMessage = {
+  type: 'view_leave';
+  payload: { playerIds: string[] };
+};
+
+// Позиции всех игроков комнаты, округлённые до целых единиц поля, — для мини-карты.
+// В отличие от снимков не ограничены областью интереса и приходят редко (MINIMAP_RATE)
+export type MinimapMessage = {
+  type: 'minimap';
+  payload: { players: MinimapEntry[] };
+};
+
+export interface MinimapEntry {
+  playerId: string;
+  x: number;
+  y: number;
+  color: string;
+}
+
+// players — игроки в области интереса клиента, включая его самого.
+// board — доска комнаты, сжатая encodeBoard; map — описание карты (см. map.ts);
+// mode — игровой режим комнаты (см. modes.ts); collectibles — лежащие на поле предметы;
+// config — настройки движения комнаты, по ним клиент предсказывает своё движение
+export type GameStateMessage = {
+  type: 'game_state';
+  payload: {
+    room: string;
+    mode: GameModeName;
+    config: GameConfig;
+    players: PlayerState[];
+    board: string;
+    map: MapDefinition;
+    collectibles: Collectible[];
+  };
+};
+
+// Сервер изменил настройки комнаты на ходу; приходит всем её игрокам
+export type ConfigChangedMessage = {
+  type: 'config_changed';
+  payload: { config: GameConfig };
+};
+
+// Объявление администратора для всех игроков сервера
+export type AnnouncementMessage = {
+  type: 'announcement';
+  payload: { text: string };
+};
+
+// Клетки доски, закрашенные с прошлой рассылки
+export type PixelsMessage = {
+  type: 'pixels';
+  payload: { pixels: Pixel[] };
+};
+
+// Текущие имя и цвет игрока после изменения
+export type PlayerUpdatedMessage = {
+  type: 'player_updated';
+  payload: { playerId: string; name: string; color: string };
+};
+
+export type PlayerStatusMessage = {
+  type: 'player_status';
+  payload: { playerId: string; status: PlayerStatus };
+};
+
+// Токен для возобновления сессии после обрыва связи.
+// gracePeriod — сколько мс сервер держит игрока в мире после обрыва.
+export type SessionMessage = {
+  type: 'session';
+  payload: { resumeToken: string; gracePeriod: number };
+};
+
+export type ChatMessage = {
+  type: 'chat';
+  payload: ChatEntry;
+};
+
+export type PingMessage = {
+  type: 'ping';
+  payload: { seq: number };
+};
+
+// Измеренная сервером задержка (RTT, мс) игроков комнаты
+export type LatencyMessage = {
+  type: 'latency';
+  payload: { players: Array<{ playerId: string; rtt: number }> };
+};
+
+// --- Предметы и очки (см. collectibles.ts) ---
+
+export type CollectiblesSpawnedMessage = {
+  type: 'collectibles_spawned';
+  payload: { collectibles: Collectible[] };
+};
+
+export type CollectiblePickedMessage = {
+  type: 'collectible_picked';
+  payload: { id: number; playerId: string; points: number };
+};
+
+// Лучшие игроки за всё время, по убыванию очков (общая для всех комнат)
+export type LeaderboardMessage = {
+  type: 'leaderboard';
+  payload: { entries: ScoreEntry[] };
+};
+
+// Очки игрока за всё время — только ему самому
+export type TotalScoreMessage = {
+  type: 'total_score';
+  payload: { total: number };
+};
+
+// --- Раунды (для режимов с раундами, см. modes.ts) ---
+
+// Раунд начался (или идёт — для вошедших посреди раунда); remaining — мс до конца
+export type RoundStartedMessage = {
+  type: 'round_started';
+  payload: { remaining: number };
+};
+
+// Текущий счёт раунда, по убыванию
+export type ScoresMessage = {
+  type: 'scores';
+  payload: { scores: ScoreEntry[] };
+};
+
+// Раунд окончен. winner нет, если раунд прервался; nextRoundIn (мс) нет,
+// если для следующего раунда не хватает игроков
+export type RoundEndedMessage = {
+  type: 'round_ended';
+  payload: { winner?: ScoreEntry; scores: ScoreEntry[]; nextRoundIn?: number };
+};
+
+// --- Режим «салки» (см. tag.ts) ---
+
+// Роль водящего перешла к playerId. taggerId нет, если роль назначил сервер
+// (в начале раунда или когда прежний водящий вышел)
+export type ItChangedMessage = {
+  type: 'it_changed';
+  payload: { playerId: string; taggerId?: string };
+};
+
+export type RoomListMessage = {
+  type: 'room_list';
+  payload: { rooms: RoomInfo[] };
+};
+
+export type ServerMessage =
+  | WelcomeMessage
+  | SnapshotMessage
+  | PlayerJoinedMessage
+  | PlayerLeftMessage
+  | ViewEnterMessage
+  | ViewLeaveMessage
+  | MinimapMessage
+  | PlayerUpdatedMessage
+  | PlayerStatusMessage
+  | SessionMessage
+  | ChatMessage
+  | PingMessage
+  | LatencyMessage
+  | GameStateMessage
+  | ConfigChangedMessage
+  | PixelsMessage
+  | CollectiblesSpawnedMessage
+  | CollectiblePickedMessage
+  | LeaderboardMessage
+  | TotalScoreMessage
+  | RoundStartedMessage
+  | ScoresMessage
+  | RoundEndedMessage
+  | ItChangedMessage
+  | RoomListMessage
+  | KickedMessage
+  | AnnouncementMessage
+  | CorrectionMessage
+  | ErrorMessage;
+
+// --- Проверка сообщений ---
+
+export class ProtocolError extends Error {
+  constructor(readonly code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+const invalid = (reason: string): never => {
+  throw new ProtocolError('invalid_message', reason);
+};
+
+const expectObject = (value: unknown, field: string): Fields => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return invalid(`${field} must be an object`);
+  }
+  return value as Fields;
+};
+
+const expectString = (value: unknown, field: string, maxLength: number): string => {
+  if (typeof value !== 'string') return invalid(`${field} must be a string`);
+  if (value.length > maxLength) return invalid(`${field} is longer than ${maxLength} characters`);
+  return value;
+};
+
+const expectNumber = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return invalid(`${field} must be a finite number`);
+  }
+  return value;
+};
+
+const expectBoolean = (value: unknown, field: string): boolean => {
+  if (typeof value !== 'boolean') return invalid(`${field} must be a boolean`);
+  return value;
+};
+
+const expectArray = (value: unknown, field: string, maxLength: number): unknown[] => {
+  if (!Array.isArray(value)) return invalid(`${field} must be an array`);
+  if (value.length > maxLength) {
+    throw new ProtocolError('payload_too_large', `${field} has more than ${maxLength} items`);
+  }
+  return value;
+};
+
+const expectStatus = (value: unknown, field: string): PlayerStatus => {
+  const status = expectString(value, field, MAX_ID_LENGTH) as PlayerStatus;
+  if (!PLAYER_STATUSES.includes(status)) invalid(`${field} is not a valid player status`);
+  return status;
+};
+
+const parsePixel = (value: unknown, field: string): Pixel => {
+  const pixel = expectObject(value, field);
+  return {
+    x: expectNumber(pixel.x, `${field}.x`),
+    y: expectNumber(pixel.y, `${field}.y`),
+    color: expectNumber(pixel.color, `${field}.color`),
+  };
+};
+
+// Здесь проверяется только форма описания; содержимое проверяет createTileMap
+const parseMapDefinition = (value: unknown, field: string): MapDefinition => {
+  const map = expectObject(value, field);
+  return {
+    name: expectString(map.name, `${field}.name`, MAX_ID_LENGTH),
+    tileSize: expectNumber(map.tileSize, `${field}.tileSize`),
+    rows: expectArray(map.rows, `${field}.rows`, MAX_MAP_ROWS)
+      .map((row, index) => expectString(row, `${field}.rows[${index}]`, MAX_MAP_ROWS)),
+  };
+};
+
+const parseGameConfig = (value: unknown, field: string): GameConfig => {
+  const config = expectObject(value, field);
+  const playerCollision = expectString(config.playerCollision, `${field}.playerCollision`, MAX_ID_LENGTH) as PlayerCollision;
+  if (!PLAYER_COLLISIONS.includes(playerCollision)) invalid(`${field}.playerCollision is not a valid collision mode`);
+  return {
+    fieldWidth: expectNumber(config.fieldWidth, `${field}.fieldWidth`),
+    fieldHeight: expectNumber(config.fieldHeight, `${field}.fieldHeight`),
+    playerSize: expectNumber(config.playerSize, `${field}.playerSize`),
+    moveSpeed: expectNumber(config.moveSpeed, `${field}.moveSpeed`),
+    playerCollision,
+  };
+};
+
+const expectChannel = (value: unknown, field: string): ChatChannel => {
+  const channel = expectString(value, field, MAX_ID_LENGTH) as ChatChannel;
+  if (!CHAT_CHANNELS.includes(channel)) invalid(`${field} is not a valid chat channel`);
+  return channel;
+};
+
+const expectPlayerColor = (value: unknown, field: string): string => {
+  const color = expectString(value, field, MAX_COLOR_LENGTH);
+  if (!PLAYER_COLOR_PATTERN.test(color)) invalid(`${field} must be a #rrggbb color`);
+  return color;
+};
+
+const expectMode = (value: unknown, field: string): GameModeName => {
+  const mode = expectString(value, field, MAX_ID_LENGTH) as GameModeName;
+  if (!GAME_MODES.includes(mode)) invalid(`${field} is not a known game mode`);
+  return mode;
+};
+
+const expectEncoding = (value: unknown, field: string): WireEncoding => {
+  const encoding = expectString(value, field, MAX_ID_LENGTH) as WireEncoding;
+  if (!WIRE_ENCODINGS.includes(encoding)) invalid(`${field} is not a supported encoding`);
+  return encoding;
+};
+
+const expectKickReason = (value: unknown, field: string): KickReason => {
+  const reason = expectString(value, field, MAX_ID_LENGTH) as KickReason;
+  if (!KICK_REASONS.includes(reason)) invalid(`${field} is not a valid kick reason`);
+  return reason;
+};
+
+const expectViolation = (value: unknown, field: string): MovementViolation => {
+  const violation = expectString(value, field, MAX_ID_LENGTH) as MovementViolation;
+  if (!MOVEMENT_VIOLATIONS.includes(violation)) invalid(`${field} is not a known movement violation`);
+  return violation;
+};
+
+const ERROR_CODES: ErrorCode[] = [
+  'invalid_message',
+  'payload_too_large',
+  'unknown_type',
+  'unsupported_version',
+  'handshake_required',
+  'room_full',
+  'session_conflict',
+  'rate_limited',
+  'muted',
+];
+
+const parseError = (payload: Fields): ErrorMessage => {
+  const code = expectString(payload.code, 'payload.code', MAX_ERROR_LENGTH) as ErrorCode;
+  if (!ERROR_CODES.includes(code)) invalid(`unknown error code ${code}`);
+  return { type: 'error', payload: { code, message: expectString(payload.message, 'payload.message', MAX_ERROR_LENGTH) } };
+};
+
+const parseInput = (value: unknown, index: number): MovementInput => {
+  const input = expectObject(value, `inputs[${index}]`);
+  return {
+    seq: expectNumber(input.seq, `inputs[${index}].seq`),
+    up: expectBoolean(input.up, `inputs[${index}].up`),
+    down: expectBoolean(input.down, `inputs[${index}].down`),
+    left: expectBoolean(input.left, `inputs[${index}].left`),
+    right: expectBoolean(input.right, `inputs[${index}].right`),
+  };
+};
+
+const parseEntityState = (value: unknown, index: number): EntityState => {
+  const entity = expectObject(value, `entities[${index}]`);
+  return {
+    playerId: expectString(entity.playerId, `entities[${index}].playerId`, MAX_ID_LENGTH),
+    x: expectNumber(entity.x, `entities[${index}].x`),
+    y: expectNumber(entity.y, `entities[${index}].y`),
+    seq: expectNumber(entity.seq, `entities[${index}].seq`),
+  };
+};
+
+const parsePlayerState = (value: unknown, field: string): PlayerState => {
+  const player = expectObject(value, field);
+  return {
+    id: expectString(player.id, `${field}.id`, MAX_ID_LENGTH),
+    handle: expectNumber(player.handle, `${field}.handle`),
+    name: expectString(player.name, `${field}.name`, MAX_PLAYER_NAME_LENGTH),
+    color: expectString(player.color, `${field}.color`, MAX_COLOR_LENGTH),
+    x: expectNumber(player.x, `${field}.x`),
+    y: expectNumber(player.y, `${field}.y`),
+    status: expectStatus(player.status, `${field}.status`),
+  };
+};
+
+const parseScoreEntry = (value: unknown, field: string): ScoreEntry => {
+  const score = expectObject(value, field);
+  return {
+    playerId: expectString(score.playerId, `${field}.playerId`, MAX_ID_LENGTH),
+    name: expectString(score.name, `${field}.name`, MAX_PLAYER_NAME_LENGTH),
+    score: expectNumber(score.score, `${field}.score`),
+  };
+};
+
+const parseScores = (value: unknown, field: string): ScoreEntry[] =>
+  expectArray(value, field, Infinity).map((score, index) => parseScoreEntry(score, `${field}[${index}]`));
+
+const parseCollectible = (value: unknown, field: string): Collectible => {
+  const item = expectObject(value, field);
+  return {
+    id: expectNumber(item.id, `${field}.id`),
+    x: expectNumber(item.x, `${field}.x`),
+    y: expectNumber(item.y, `${field}.y`),
+    value: expectNumber(item.value, `${field}.value`),
+  };
+};
+
+const parseCollectibles = (value: unknown, field: string): Collectible[] =>
+  expectArray(value, field, Infinity).map((item, index) => parseCollectible(item, `${field}[${index}]`));
+
+const parseRoomInfo = (value: unknown, index: number): RoomInfo => {
+  const room = expectObject(value, `rooms[${index}]`);
+  return {
+    name: expectString(room.name, `rooms[${index}].name`, MAX_ROOM_NAME_LENGTH),
+    players: expectNumber(room.players, `rooms[${index}].players`),
+    capacity: expectNumber(room.capacity, `rooms[${index}].capacity`),
+    mode: expectMode(room.mode, `rooms[${index}].mode`),
+  };
+};
+
+const clientParsers: { [K in ClientMessage['type']]: (payload: Fields) => Extract<ClientMessage, { type: K }> } = {
+  hello: (payload) => ({
+    type: 'hello',
+    payload: {
+      version: expectNumber(payload.version, 'payload.version'),
+      encodings: payload.encodings === undefined
+        ? undefined
+        : expectArray(payload.encodings, 'payload.encodings', WIRE_ENCODINGS.length)
+            .map((encoding, index) => expectEncoding(encoding, `encodings[${index}]`)),
+    },
+  }),
+  player_joined: (payload) => ({
+    type: 'player_joined',
+    payload: {
+      id: expectString(payload.id, 'payload.id', MAX_ID_LENGTH),
+      name: expectString(payload.name, 'payload.name', MAX_PLAYER_NAME_LENGTH),
+      color: expectPlayerColor(payload.color, 'payload.color'),
+    },
+  }),
+  input: (payload) => ({
+    type: 'input',
+    payload: {
+      inputs: expectArray(payload.inputs, 'payload.inputs', MAX_INPUTS_PER_MESSAGE).map(parseInput),
+    },
+  }),
+  snapshot_ack: (payload) => ({
+    type: 'snapshot_ack',
+    payload: { tick: expectNumber(payload.tick, 'payload.tick') },
+  }),
+  join_room: (payload) => ({
+    type: 'join_room',
+    payload: {
+      room: expectString(payload.room, 'payload.room', MAX_ROOM_NAME_LENGTH),
+      mode: payload.mode === undefined ? undefined : expectMode(payload.mode, 'payload.mode'),
+    },
+  }),
+  list_rooms: () => ({ type: 'list_rooms' }),
+  request_game_state: () => ({ type: 'request_game_state' }),
+  update_player: (payload) => ({
+    type: 'update_player',
+    payload: {
+      name: payload.name === undefined ? undefined : expectString(payload.name, 'payload.name', MAX_PLAYER_NAME_LENGTH),
+      color: payload.color === undefined ? undefined : expectPlayerColor(payload.color, 'payload.color'),
+    },
+  }),
+  chat: (payload) => ({
+    type: 'chat',
+    payload: {
+      channel: expectChannel(payload.channel, 'payload.channel'),
+      text: expectString(payload.text, 'payload.text', MAX_CHAT_LENGTH),
+    },
+  }),
+  paint: (payload) => ({
+    type: 'paint',
+    payload: parsePixel(payload, 'payload'),
+  }),
+  viewport: (payload) => ({
+    type: 'viewport',
+    payload: {
+      width: expectNumber(payload.width, 'payload.width'),
+      height: expectNumber(payload.height, 'payload.height'),
+    },
+  }),
+  mode_action: (payload) => ({
+    type: 'mode_action',
+    payload: {
+      action: expectString(payload.action, 'payload.action', MAX_ID_LENGTH),
+      data: payload.data === undefined ? undefined : expectObject(payload.data, 'payload.data'),
+    },
+  }),
+  pong: (payload) => ({
+    type: 'pong',
+    payload: { seq: expectNumber(payload.seq, 'payload.seq') },
+  }),
+  leave: () => ({ type: 'leave' }),
+  error: parseError,
+};
+
+const serverParsers: { [K in ServerMessage['type']]: (payload: Fields) => Extract<ServerMessage, { type: K }> } = {
+  welcome: (payload) => ({
+    type: 'welcome',
+    payload: {
+      version: expectNumber(payload.version, 'payload.version'),
+      encoding: expectEncoding(payload.encoding, 'payload.encoding'),
+    },
+  }),
+  snapshot: (payload) => ({
+    type: 'snapshot',
+    payload: {
+      tick: expectNumber(payload.tick, 'payload.tick'),
+      time: expectNumber(payload.time, 'payload.time'),
+      entities: expectArray(payload.entities, 'payload.entities', Infinity).map(parseEntityState),
+    },
+  }),
+  player_joined: (payload) => ({
+    type: 'player_joined',
+    payload: parsePlayerState(payload, 'payload'),
+  }),
+  player_left: (payload) => ({
+    type: 'player_left',
+    payload: { playerId: expectString(payload.playerId, 'payload.playerId', MAX_ID_LENGTH) },
+  }),
+  view_enter: (payload) => ({
+    type: 'view_enter',
+    payload: {
+      players: expectArray(payload.players, 'payload.players', Infinity)
+        .map((player, index) => parsePlayerState(player, `players[${index}]`)),
+    },
+  }),
+  view_leave: (payload) => ({
+    type: 'view_leave',
+    payload: {
+      playerIds: expectArray(payload.playerIds, 'payload.playerIds', Infinity)
+        .map((id, index) => expectString(id, `playerIds[${index}]`, MAX_ID_LENGTH)),
+    },
+  }),
+  minimap: (payload) => ({
+    type: 'minimap',
+    payload: {
+      players: expectArray(payload.players, 'payload.players', Infinity).map((value, index) => {
+        const entry = expectObject(value, `players[${index}]`);
+        return {
+          playerId: expectString(entry.playerId, `players[${index}].playerId`, MAX_ID_LENGTH),
+          x: expectNumber(entry.x, `players[${index}].x`),
+          y: expectNumber(entry.y, `players[${index}].y`),
+          color: expectString(entry.color, `players[${index}].color`, MAX_COLOR_LENGTH),
+        };
+      }),
+    },
+  }),
+  player_updated: (payload) => ({
+    type: 'player_updated',
+    payload: {
+      playerId: expectString(payload.playerId, 'payload.playerId', MAX_ID_LENGTH),
+      name: expectString(payload.name, 'payload.name', MAX_PLAYER_NAME_LENGTH),
+      color: expectString(payload.color, 'payload.color', MAX_COLOR_LENGTH),
+    },
+  }),
+  player_status: (payload) => ({
+    type: 'player_status',
+    payload: {
+      playerId: expectString(payload.playerId, 'payload.playerId', MAX_ID_LENGTH),
+      status: expectStatus(payload.status, 'payload.status'),
+    },
+  }),
+  session: (payload) => ({
+    type: 'session',
+    payload: {
+      resumeToken: expectString(payload.resumeToken, 'payload.resumeToken', MAX_ID_LENGTH),
+      gracePeriod: expectNumber(payload.gracePeriod, 'payload.gracePeriod'),
+    },
+  }),
+  chat: (payload) => ({
+    type: 'chat',
+    payload: {
+      playerId: expectString(payload.playerId, 'payload.playerId', MAX_ID_LENGTH),
+      name: expectString(payload.name, 'payload.name', MAX_PLAYER_NAME_LENGTH),
+      channel: expectChannel(payload.channel, 'payload.channel'),
+      text: expectString(payload.text, 'payload.text', MAX_CHAT_LENGTH),
+      time: expectNumber(payload.time, 'payload.time'),
+    },
+  }),
+  ping: (payload) => ({
+    type: 'ping',
+    payload: { seq: expectNumber(payload.seq, 'payload.seq') },
+  }),
+  latency: (payload) => ({
+    type: 'latency',
+    payload: {
+      players: expectArray(payload.players, 'payload.players', Infinity).map((value, index) => {
+        const entry = expectObject(value, `players[${index}]`);
+        return {
+          playerId: expectString(entry.playerId, `players[${index}].playerId`, MAX_ID_LENGTH),
+          rtt: expectNumber(entry.rtt, `players[${index}].rtt`),
+        };
+      }),
+    },
+  }),
+  game_state: (payload) => ({
+    type: 'game_state',
+    payload: {
+      room: expectString(payload.room, 'payload.room', MAX_ROOM_NAME_LENGTH),
+      mode: expectMode(payload.mode, 'payload.mode'),
+      config: parseGameConfig(payload.config, 'payload.config'),
+      players: expectArray(payload.players, 'payload.players', Infinity)
+        .map((player, index) => parsePlayerState(player, `players[${index}]`)),
+      board: expectString(payload.board, 'payload.board', Infinity),
+      map: parseMapDefinition(payload.map, 'payload.map'),
+      collectibles: parseCollectibles(payload.collectibles, 'payload.collectibles'),
+    },
+  }),
+  config_changed: (payload) => ({
+    type: 'config_changed',
+    payload: { config: parseGameConfig(payload.config, 'payload.config') },
+  }),
+  collectibles_spawned: (payload) => ({
+    type: 'collectibles_spawned',
+    payload: { collectibles: parseCollectibles(payload.collectibles, 'payload.collectibles') },
+  }),
+  collectible_picked: (payload) => ({
+    type: 'collectible_picked',
+    payload: {
+      id: expectNumber(payload.id, 'payload.id'),
+      playerId: expectString(payload.playerId, 'payload.playerId', MAX_ID_LENGTH),
+      points: expectNumber(payload.points, 'payload.points'),
+    },
+  }),
+  leaderboard: (payload) => ({
+    type: 'leaderboard',
+    payload: { entries: parseScores(payload.entries, 'payload.entries') },
+  }),
+  total_score: (payload) => ({
+    type: 'total_score',
+    payload: { total: expectNumber(payload.total, 'payload.total') },
+  }),
+  pixels: (payload) => ({
+    type: 'pixels',
+    payload: {
+      pixels: expectArray(payload.pixels, 'payload.pixels', Infinity)
+        .map((pixel, index) => parsePixel(pixel, `pixels[${index}]`)),
+    },
+  }),
+  round_started: (payload) => ({
+    type: 'round_started',
+    payload: { remaining: expectNumber(payload.remaining, 'payload.remaining') },
+  }),
+  scores: (payload) => ({
+    type: 'scores',
+    payload: { scores: parseScores(payload.scores, 'payload.scores') },
+  }),
+  it_changed: (payload) => ({
+    type: 'it_changed',
+    payload: {
+      playerId: expectString(payload.playerId, 'payload.playerId', MAX_ID_LENGTH),
+      taggerId: payload.taggerId === undefined
+        ? undefined
+        : expectString(payload.taggerId, 'payload.taggerId', MAX_ID_LENGTH),
+    },
+  }),
+  round_ended: (payload) => ({
+    type: 'round_ended',
+    payload: {
+      winner: payload.winner === undefined ? undefined : parseScoreEntry(payload.winner, 'payload.winner'),
+      scores: parseScores(payload.scores, 'payload.scores'),
+      nextRoundIn: payload.nextRoundIn === undefined
+        ? undefined
+        : expectNumber(payload.nextRoundIn, 'payload.nextRoundIn'),
+    },
+  }),
+  room_list: (payload) => ({
+    type: 'room_list',
+    payload: { rooms: expectArray(payload.rooms, 'payload.rooms', Infinity).map(parseRoomInfo) },
+  }),
+  correction: (payload) => ({
+    type: 'correction',
+    payload: {
+      x: expectNumber(payload.x, 'payload.x'),
+      y: expectNumber(payload.y, 'payload.y'),
+      seq: expectNumber(payload.seq, 'payload.seq'),
+      reason: expectViolation(payload.reason, 'payload.reason'),
+    },
+  }),
+  announcement: (payload) => ({
+    type: 'announcement',
+    payload: { text: expectString(payload.text, 'payload.text', MAX_ANNOUNCEMENT_LENGTH) },
+  }),
+  kicked: (payload) => ({
+    type: 'kicked',
+    payload: {
+      reason: expectKickReason(payload.reason, 'payload.reason'),
+      message: expectString(payload.message, 'payload.message', MAX_ERROR_LENGTH),
+      retryAfter: payload.retryAfter === undefined ? undefined : expectNumber(payload.retryAfter, 'payload.retryAfter'),
+    },
+  }),
+  error: parseError,
+};
+
+const parseMessage = <T>(
+  raw: string,
+  parsers: Record<string, (payload: Fields) => T>,
+  maxSize: number
+): T => {
+  if (raw.length > maxSize) {
+    throw new ProtocolError('payload_too_large', `message exceeds ${maxSize} bytes`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return invalid('message is not valid JSON');
+  }
+
+  const message = expectObject(data, 'message');
+  const type = expectString(message.type, 'type', MAX_ID_LENGTH);
+  const parser = Object.prototype.hasOwnProperty.call(parsers, type) ? parsers[type] : undefined;
+  if (!parser) {
+    throw new ProtocolError('unknown_type', `unknown message type ${type}`);
+  }
+  return parser(message.payload === undefined ? {} : expectObject(message.payload, 'payload'));
+};
+
+// Проверяет сообщение клиента; при ошибке бросает ProtocolError
+export const parseClientMessage = (raw: string): ClientMessage =>
+  parseMessage<ClientMessage>(raw, clientParsers, MAX_MESSAGE_SIZE);
+
+// Проверяет сообщение сервера; размер не ограничиваем — полное состояние комнаты может быть большим
+export const parseServerMessage = (raw: string): ServerMessage =>
+  parseMessage<ServerMessage>(raw, serverParsers, Infinity);
+
+export const toErrorMessage = (error: unknown): ErrorMessage => {
+  if (error instanceof ProtocolError) {
+    return { type: 'error', payload: { code: error.code, message: error.message } };
+  }
+  return { type: 'error', payload: { code: 'invalid_message', message: 'malformed message' } };
+};
@@ -0,0 +1,23 @@
+// Комнаты: общие для клиента и сервера константы и типы
+
+import { GameModeName } from './modes';
+
+export const DEFAULT_ROOM = 'main';
+export const MAX_ROOM_NAME_LENGTH = 32;
+
+export interface RoomInfo {
+  name: string;
+  players: number;
+  capacity: number;
+  mode: GameModeName;
+}
+
+// Приводит имя комнаты к каноничному виду; пустое имя означает комнату по умолчанию
+export const normalizeRoomName = (name: string | null | undefined): string => {
+  const normalized = (name ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .slice(0, MAX_ROOM_NAME_LENGTH);
+  return normalized || DEFAULT_ROOM;
+};
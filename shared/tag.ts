@@ -0,0 +1,21 @@
+// Режим «салки»: один игрок «водит» (it), коснувшись другого — передаёт ему роль.
+// Раунд идёт TAG_ROUND_DURATION мс; очки — секунды, проведённые НЕ водящим.
+// Побеждает тот, у кого к концу раунда больше всего очков.
+// Раундами управляет сервер, клиент только показывает таймер, водящего и счёт.
+
+import { GameConfig, Position } from './movement';
+
+export const TAG_ROUND_DURATION = 120_000;
+export const TAG_INTERMISSION = 10_000;
+export const TAG_MIN_PLAYERS = 2;
+// После передачи роли новый водящий какое-то время не может осалить (нет «ответки»)
+export const TAG_COOLDOWN = 1500;
+// Зазор в единицах поля, на котором касание ещё засчитывается: при столкновениях
+// игроки не пересекаются, а упираются друг в друга
+export const TAG_REACH = 0.25;
+
+// Касаются ли игроки друг друга (с учётом зазора TAG_REACH)
+export const isTouching = (a: Position, b: Position, config: GameConfig): boolean => {
+  const reach = config.playerSize + TAG_REACH;
+  return Math.abs(a.x - b.x) <= reach && Math.abs(a.y - b.y) <= reach;
+};
@@ -1,45 +1,77 @@
 // --- START OF FILE App.tsx ---
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import GameField from './components/GameField';
 import PlayerList from './components/PlayerList';
 import GameHeader from './components/GameHeader';
 import ConnectionStatus from './components/ConnectionStatus';
-import SupabaseSetupMessage from './components/SupabaseSetupMessage';
+import RoomPicker from './components/RoomPicker';
+import ChatPanel from './components/ChatPanel';
+import PaintToolbar from './components/PaintToolbar';
+import LeaderboardPanel from './components/LeaderboardPanel';
+import SignInForm from './components/SignInForm';
+import AnnouncementBanner from './components/AnnouncementBanner';
 import { useGameState } from './hooks/useGameState';
 import { useKeyboardControls } from './hooks/useKeyboardControls';
 import { useMovement } from './hooks/useMovement';
-import { GameConfig } from './types/game';
+import { useChat } from './hooks/useChat';
+import { useBoard } from './hooks/useBoard';
+import { useGameMode } from './hooks/useGameMode';
+import { useCollectibles } from './hooks/useCollectibles';
+import { useAnnouncement } from './hooks/useAnnouncement';
+import { useMinimap } from './hooks/useMinimap';
+import { DEFAULT_GAME_CONFIG } from '../shared/movement';
+import { GameModeName } from '../shared/modes';
+import { CanvasLayer } from './modes';
+import { AuthSession } from '../shared/auth';
+import { loadSession, signOut } from './lib/auth';
+import gameWebSocket from './lib/websocket';
 
-const GAME_CONFIG: GameConfig = {
-  fieldWidth: 200,
-  fieldHeight: 150,
-  playerSize: 1,
-  // Скорость можно подрегулировать для комфортной игры
-  moveSpeed: 0.8,
-};
-
-const isSupabaseConfigured =
-  import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY;
+interface GameProps {
+  session: AuthSession;
+  onSignOut: () => void;
+}
 
-function App() {
-  const [showSetupMessage] = useState(!isSupabaseConfigured);
-  const [playerName] = useState(`Player-${Math.floor(Math.random() * 1000)}`);
+function Game({ session, onSignOut }: GameProps) {
+  const playerName = session.username;
+  const [room, setRoom] = useState<string | null>(null);
+  // Режим, выбранный при создании новой комнаты; у существующей комнаты режим свой
+  const [newRoomMode, setNewRoomMode] = useState<GameModeName | undefined>(undefined);
 
   const {
     players,
     setPlayers, // Получаем setPlayers из useGameState
     currentPlayer,
-    isConnected,
     error,
+    notice,
+    map,
+    config,
     updatePlayerName,
-  } = useGameState(playerName, GAME_CONFIG);
+    updatePlayerColor,
+  } = useGameState(session, playerName, room, newRoomMode);
+
+  // Настройки и размер мира задаёт сервер; до 'game_state' — значения по умолчанию
+  const worldConfig = config ?? DEFAULT_GAME_CONFIG;
+
+  const { messages, bubbles, sendChat } = useChat(room);
+  const { mode, state: modeState, round } = useGameMode(room);
+  const { collectibles, leaderboard, totalScore } = useCollectibles(room);
+  const { announcement, dismiss: dismissAnnouncement } = useAnnouncement();
+  const { minimapPlayers } = useMinimap(room);
+  const modeLayers = useMemo<CanvasLayer[]>(
+    () => (mode.drawLayer ? [(view) => mode.drawLayer!(view, modeState)] : []),
+    [mode, modeState]
+  );
+  const ModeHud = mode.Hud;
+
+  const self = players.find(p => p.id === currentPlayer?.id) ?? null;
+  const { board, paintMode, setPaintMode, color, setColor, paint } = useBoard(room, worldConfig, self);
 
   const movement = useKeyboardControls();
 
   // Вызываем хук движения, который запускает игровой цикл
   // Передаем только setPlayers, а не сам массив players
-  useMovement(setPlayers, movement, currentPlayer, GAME_CONFIG);
+  useMovement(setPlayers, movement, currentPlayer, worldConfig, map);
 
   const handleNameChange = (name: string) => {
     updatePlayerName(name);
@@ -47,24 +79,64 @@ function App() {
 
   const currentName = currentPlayer?.name || playerName;
 
+  const handleRoomSelect = (name: string, mode?: GameModeName) => {
+    setNewRoomMode(mode);
+    setRoom(name);
+  };
+
   return (
     <div className="min-h-screen bg-gray-900 text-white p-4 md:p-8">
-      {showSetupMessage && <SupabaseSetupMessage />}
+      {!room && (
+        <>
+          <div className="max-w-md mx-auto mb-4 flex justify-between text-sm text-gray-400">
+            <span>
+              Signed in as <strong className="text-white">{session.username}</strong>
+            </span>
+            <button onClick={onSignOut} className="hover:text-white transition-colors">
+              Sign out
+            </button>
+          </div>
+          <RoomPicker onSelect={handleRoomSelect} />
+        </>
+      )}
 
-      {!showSetupMessage && (
+      {room && (
         <div className="max-w-6xl mx-auto">
+          {announcement && <AnnouncementBanner text={announcement} onDismiss={dismissAnnouncement} />}
           <GameHeader
             playerName={currentName}
             onNameChange={handleNameChange}
+            playerColor={currentPlayer?.color ?? null}
+            onColorChange={updatePlayerColor}
             connectedPlayers={players.length}
+            roomName={room}
+            onLeaveRoom={() => setRoom(null)}
+            modeLabel={mode.label}
+            round={mode.hasRounds ? round : null}
           />
 
           <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
             <div className="lg:col-span-3">
               <GameField
                 players={players}
+                minimapPlayers={minimapPlayers}
                 currentPlayerId={currentPlayer?.id ?? null}
-                gameConfig={GAME_CONFIG}
+                gameConfig={worldConfig}
+                bubbles={bubbles}
+                board={board}
+                map={map}
+                collectibles={collectibles}
+                layers={modeLayers}
+                hud={ModeHud && (
+                  <ModeHud state={modeState} round={round} currentPlayerId={currentPlayer?.id ?? null} />
+                )}
+                onCellClick={paintMode ? paint : undefined}
+              />
+              <PaintToolbar
+                paintMode={paintMode}
+                onPaintModeChange={setPaintMode}
+                color={color}
+                onColorChange={setColor}
               />
             </div>
 
@@ -72,15 +144,65 @@ function App() {
               <PlayerList
                 players={players}
                 currentPlayerId={currentPlayer?.id ?? null}
+                scores={mode.hasRounds ? round.scores : {}}
+                playerBadge={(playerId) => mode.playerBadge?.(modeState, playerId) ?? null}
+              />
+              <LeaderboardPanel
+                entries={leaderboard}
+                currentPlayerId={currentPlayer?.id ?? null}
+                totalScore={totalScore}
+              />
+              <ChatPanel
+                messages={messages}
+                currentPlayerId={currentPlayer?.id ?? null}
+                onSend={sendChat}
               />
             </div>
           </div>
         </div>
       )}
 
-      {!showSetupMessage && <ConnectionStatus isConnected={isConnected} error={error} />}
+      {room && <ConnectionStatus error={error} notice={notice} />}
     </div>
   );
 }
 
+// Играть можно только после входа: id игрока сервер берёт из токена сессии
+function App() {
+  const [session, setSession] = useState<AuthSession | null>(loadSession);
+
+  // Почему пришлось войти заново (сервер не принял сохранённую сессию)
+  const [signInNotice, setSignInNotice] = useState<string | null>(null);
+
+  const handleSignOut = () => {
+    signOut();
+    setSession(null);
+  };
+
+  // Токен отозван или подписан другим секретом: сохранённая сессия больше не годится
+  useEffect(() => {
+    const handleAuthFailed = () => {
+      signOut();
+      setSession(null);
+      setSignInNotice('Your session has expired. Please sign in again.');
+    };
+    gameWebSocket.on('auth_failed', handleAuthFailed);
+    return () => gameWebSocket.off('auth_failed', handleAuthFailed);
+  }, []);
+
+  const handleSignedIn = (newSession: AuthSession) => {
+    setSignInNotice(null);
+    setSession(newSession);
+  };
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white p-4 md:p-8">
+        <SignInForm onSignedIn={handleSignedIn} notice={signInNotice} />
+      </div>
+    );
+  }
+  return <Game session={session} onSignOut={handleSignOut} />;
+}
+
 export default App;
\ No newline at end of file
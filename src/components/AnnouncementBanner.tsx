@@ -0,0 +1,21 @@
+import React from 'react';
+import { Megaphone, X } from 'lucide-react';
+
+interface AnnouncementBannerProps {
+  text: string;
+  onDismiss: () => void;
+}
+
+const AnnouncementBanner: React.FC<AnnouncementBannerProps> = ({ text, onDismiss }) => {
+  return (
+    <div role="status" className="mb-4 flex items-center gap-3 rounded-lg bg-amber-600 px-4 py-2 shadow-lg">
+      <Megaphone size={18} className="shrink-0" />
+      <span className="flex-1 break-words">{text}</span>
+      <button onClick={onDismiss} className="text-amber-100 hover:text-white" aria-label="Dismiss announcement">
+        <X size={18} />
+      </button>
+    </div>
+  );
+};
+
+export default AnnouncementBanner;
@@ -0,0 +1,89 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MessageSquare, Send } from 'lucide-react';
+import { ChatChannel, ChatEntry, MAX_CHAT_LENGTH } from '../../shared/chat';
+
+interface ChatPanelProps {
+  messages: ChatEntry[];
+  currentPlayerId: string | null;
+  onSend: (channel: ChatChannel, text: string) => void;
+}
+
+const channelLabels: Record<ChatChannel, string> = {
+  global: 'Room',
+  proximity: 'Nearby',
+};
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, currentPlayerId, onSend }) => {
+  const [text, setText] = useState('');
+  const [channel, setChannel] = useState<ChatChannel>('global');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages]);
+
+  const handleSend = () => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    onSend(channel, trimmed);
+    setText('');
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 shadow-lg mt-4">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-white flex items-center">
+          <MessageSquare className="inline-block mr-2" size={18} />
+          Chat
+        </h2>
+        <div className="flex bg-gray-900 rounded text-xs">
+          {(Object.keys(channelLabels) as ChatChannel[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setChannel(option)}
+              className={`px-2 py-1 rounded transition-colors ${
+                channel === option ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {channelLabels[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div ref={listRef} className="space-y-1 h-48 overflow-y-auto pr-2 mb-4 text-sm">
+        {messages.map((message, index) => (
+          <div key={`${message.time}-${index}`} className="break-words">
+            {message.channel === 'proximity' && <span className="text-gray-500">[nearby] </span>}
+            <span className={message.playerId === currentPlayerId ? 'text-green-400' : 'text-blue-300'}>
+              {message.name}:
+            </span>{' '}
+            <span className="text-gray-200">{message.text}</span>
+          </div>
+        ))}
+        {messages.length === 0 && <div className="text-gray-400">No messages yet.</div>}
+      </div>
+
+      <div className="flex items-center bg-gray-700 rounded px-2 py-1">
+        <input
+          type="text"
+          value={text}
+          maxLength={MAX_CHAT_LENGTH}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSend();
+          }}
+          placeholder={`Message ${channelLabels[channel].toLowerCase()}...`}
+          className="bg-transparent text-white outline-none flex-1 min-w-0"
+        />
+        <button onClick={handleSend} className="ml-2 text-green-400 hover:text-green-300">
+          <Send size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ChatPanel;
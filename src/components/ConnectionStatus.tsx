@@ -1,17 +1,33 @@
 import React from 'react';
-import gameWebSocket from '../lib/websocket';
+import gameWebSocket, { ConnectionState } from '../lib/websocket';
+import { KickedMessage } from '../../shared/protocol';
 
 interface ConnectionStatusProps {
-  isConnected: boolean;
   error: string | null;
+  // Short-lived message about an action the server refused (rate limit, mute, cooldown)
+  notice: string | null;
 }
 
-const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ isConnected, error }) => {
-  const [wsConnected, setWsConnected] = React.useState(false);
+const wsStateLabels: Record<ConnectionState, string> = {
+  connecting: 'Connecting',
+  connected: 'Connected',
+  reconnecting: 'Reconnecting',
+  disconnected: 'Disconnected',
+};
+
+const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ error, notice }) => {
+  const [wsState, setWsState] = React.useState<ConnectionState>('disconnected');
+  const [attemptsLeft, setAttemptsLeft] = React.useState(0);
+  const [latency, setLatency] = React.useState<number | null>(null);
+  const [kick, setKick] = React.useState<KickedMessage['payload'] | null>(null);
 
   React.useEffect(() => {
     const checkConnection = () => {
-      setWsConnected(gameWebSocket.isConnected());
+      const { state, attemptsLeft } = gameWebSocket.getConnectionState();
+      setWsState(state);
+      setAttemptsLeft(attemptsLeft);
+      setLatency(gameWebSocket.getLatency());
+      setKick(gameWebSocket.getKick());
     };
 
     // Проверяем статус каждую секунду
@@ -24,17 +40,26 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ isConnected, error
   return (
     <div className="fixed bottom-4 right-4 flex flex-col gap-2">
       <div className={`px-4 py-2 rounded-lg shadow-lg ${
-        isConnected ? 'bg-green-500' : 'bg-red-500'
-      }`}>
-        Supabase: {isConnected ? 'Connected' : 'Disconnected'}
-      </div>
-      
-      <div className={`px-4 py-2 rounded-lg shadow-lg ${
-        wsConnected ? 'bg-green-500' : 'bg-red-500'
+        wsState === 'connected' ? 'bg-green-500' : wsState === 'disconnected' ? 'bg-red-500' : 'bg-yellow-600'
       }`}>
-        WebSocket: {wsConnected ? 'Connected' : 'Disconnected'}
+        WebSocket: {wsStateLabels[wsState]}
+        {wsState === 'reconnecting' && ` (${attemptsLeft} attempts left)`}
+        {wsState === 'connected' && latency !== null && ` (${latency} ms)`}
       </div>
 
+      {kick && (
+        <div className="px-4 py-2 rounded-lg shadow-lg bg-red-700">
+          Disconnected by the server: {kick.message}.
+          {kick.retryAfter !== undefined && ` You can rejoin in ${Math.ceil(kick.retryAfter / 60000)} min.`}
+        </div>
+      )}
+
+      {notice && (
+        <div className="px-4 py-2 rounded-lg shadow-lg bg-yellow-600">
+          {notice}
+        </div>
+      )}
+
       {error && (
         <div className="px-4 py-2 rounded-lg shadow-lg bg-red-500">
           Error: {error}
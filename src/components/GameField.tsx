@@ -1,112 +1,432 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import { Player, GameConfig } from '../types/game';
+import gameWebSocket from '../lib/websocket';
+import { EMPTY_PIXEL, getBoardSize, PALETTE } from '../../shared/board';
+import { TileMap } from '../../shared/map';
+import { MAX_VIEW_HEIGHT, MAX_VIEW_WIDTH, MinimapEntry } from '../../shared/protocol';
+import { CanvasLayer } from '../modes';
+import { Collectible, COLLECTIBLE_SIZE, COLLECTIBLE_VALUE } from '../../shared/collectibles';
 
 interface GameFieldProps {
   players: Player[];
+  // Coarse positions of everyone in the room, not just the players in view
+  minimapPlayers: MinimapEntry[];
   currentPlayerId: string | null;
   gameConfig: GameConfig;
+  // Latest chat line per player id, drawn as a speech bubble
+  bubbles: Record<string, string>;
+  // Shared pixel board, one palette index per field cell
+  board: Uint8Array;
+  // Walls and spawn points; null until the server sends the map
+  map: TileMap | null;
+  // Items lying on the field, drawn under the players
+  collectibles: Collectible[];
+  // Extra drawing from the room's game mode, on top of the players
+  layers: CanvasLayer[];
+  // Game mode overlay rendered over the canvas
+  hud?: React.ReactNode;
+  // When set, clicking the field paints the cell under the cursor
+  onCellClick?: (x: number, y: number) => void;
 }
 
+const paletteRgb = PALETTE.map((hex) => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+]);
+
+// Renders the board at one pixel per cell; the field canvas scales it up
+const renderBoard = (board: Uint8Array, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  // The board and the world size arrive together, but stay safe if they ever disagree
+  if (board.length !== width * height) return canvas;
+
+  const image = ctx.createImageData(width, height);
+  board.forEach((color, index) => {
+    if (color === EMPTY_PIXEL) return;
+    const [r, g, b] = paletteRgb[color];
+    image.data.set([r, g, b, 255], index * 4);
+  });
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+// Walls at one pixel per tile, scaled down further for the minimap
+const renderMinimap = (map: TileMap): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = map.columns;
+  canvas.height = map.rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  ctx.fillStyle = '#3a3a4a';
+  map.walls.forEach((isWall, index) => {
+    if (isWall) ctx.fillRect(index % map.columns, Math.floor(index / map.columns), 1, 1);
+  });
+  return canvas;
+};
+
+// Zoom is measured in screen pixels per field unit
+const DEFAULT_ZOOM = 4;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 16;
+const ZOOM_STEP = 1.1;
+const MINIMAP_SIZE = 160;
+const MINIMAP_MARGIN = 8;
+const GRID_STEP = 20;
+
+const BUBBLE_MAX_WIDTH = 160;
+const BUBBLE_MAX_LINES = 3;
+const BUBBLE_LINE_HEIGHT = 14;
+const BUBBLE_PADDING = 6;
+
+// Greedy word wrap; anything past the last line is cut with an ellipsis
+const wrapText = (ctx: CanvasRenderingContext2D, text: string): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= BUBBLE_MAX_WIDTH || !line) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length > BUBBLE_MAX_LINES) {
+    lines.length = BUBBLE_MAX_LINES;
+    lines[BUBBLE_MAX_LINES - 1] += '…';
+  }
+  return lines.map((wrapped) => {
+    let fitted = wrapped;
+    while (fitted.length > 1 && ctx.measureText(fitted).width > BUBBLE_MAX_WIDTH) {
+      fitted = fitted.slice(0, -2) + '…';
+    }
+    return fitted;
+  });
+};
+
+const drawSpeechBubble = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  centerX: number,
+  bottomY: number
+) => {
+  ctx.font = '12px Arial';
+  const lines = wrapText(ctx, text);
+  const width = Math.max(...lines.map((line) => ctx.measureText(line).width)) + BUBBLE_PADDING * 2;
+  const height = lines.length * BUBBLE_LINE_HEIGHT + BUBBLE_PADDING;
+  const left = centerX - width / 2;
+  const top = bottomY - height;
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.beginPath();
+  ctx.roundRect(left, top, width, height, 4);
+  ctx.moveTo(centerX - 4, bottomY);
+  ctx.lineTo(centerX, bottomY + 5);
+  ctx.lineTo(centerX + 4, bottomY);
+  ctx.fill();
+
+  ctx.fillStyle = '#111';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, index) => {
+    ctx.fillText(line, centerX, top + BUBBLE_PADDING / 2 + index * BUBBLE_LINE_HEIGHT + 1);
+  });
+  ctx.textBaseline = 'alphabetic';
+};
+
 const GameField: React.FC<GameFieldProps> = ({
   players,
+  minimapPlayers,
   currentPlayerId,
   gameConfig,
+  bubbles,
+  board,
+  map,
+  collectibles,
+  layers,
+  hud,
+  onCellClick,
 }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const { fieldWidth, fieldHeight, playerSize } = gameConfig;
 
-  // Scale factor for visual display
-  const scale = 4; // Makes 1px game units appear as 4px visually
-  const visualWidth = fieldWidth * scale;
-  const visualHeight = fieldHeight * scale;
+  // Canvas size in CSS pixels, kept in sync with the container
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+
+  // The server caps how much of the world a client may see, so the zoom is capped to match
+  const minZoom = Math.max(MIN_ZOOM, size.width / MAX_VIEW_WIDTH, size.height / MAX_VIEW_HEIGHT);
+  const effectiveZoom = Math.min(MAX_ZOOM, Math.max(minZoom, zoom));
 
-  // Draw the game field and all players
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize({ width: Math.floor(width), height: Math.floor(height) });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // React registers wheel listeners as passive, so preventDefault needs a native listener
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setZoom((current) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current * (e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP))));
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Tell the server how much of the world we can see
+  useEffect(() => {
+    if (size.width === 0 || size.height === 0) return;
+    gameWebSocket.setViewport(size.width / effectiveZoom, size.height / effectiveZoom);
+  }, [size, effectiveZoom]);
+
+  // Camera follows the current player; small worlds are centered instead
+  const self = players.find((player) => player.id === currentPlayerId);
+  const selfX = self?.x;
+  const selfY = self?.y;
+  const camera = useMemo(() => {
+    const viewWidth = size.width / effectiveZoom;
+    const viewHeight = size.height / effectiveZoom;
+    const follow = (center: number, view: number, world: number) =>
+      world <= view ? (world - view) / 2 : Math.min(world - view, Math.max(0, center - view / 2));
+    const centerX = selfX !== undefined ? selfX + playerSize / 2 : fieldWidth / 2;
+    const centerY = selfY !== undefined ? selfY + playerSize / 2 : fieldHeight / 2;
+    return {
+      left: follow(centerX, viewWidth, fieldWidth),
+      top: follow(centerY, viewHeight, fieldHeight),
+      width: viewWidth,
+      height: viewHeight,
+    };
+  }, [selfX, selfY, size, effectiveZoom, fieldWidth, fieldHeight, playerSize]);
+
+  const boardImage = useMemo(() => {
+    const { width, height } = getBoardSize(gameConfig);
+    return renderBoard(board, width, height);
+  }, [board, gameConfig]);
+
+  const minimapImage = useMemo(() => (map ? renderMinimap(map) : null), [map]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onCellClick) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor(camera.left + (e.clientX - rect.left) / effectiveZoom);
+    const y = Math.floor(camera.top + (e.clientY - rect.top) / effectiveZoom);
+    if (x >= 0 && y >= 0 && x < fieldWidth && y < fieldHeight) onCellClick(x, y);
+  };
+
+  // Draw the visible part of the world, then the minimap on top
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Clear canvas
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const scale = effectiveZoom;
+    const toScreenX = (x: number) => (x - camera.left) * scale;
+    const toScreenY = (y: number) => (y - camera.top) * scale;
+    const visualSize = playerSize * scale;
+
+    // Clear canvas; the area outside the world stays darker
+    ctx.fillStyle = '#0a0a0a';
+    ctx.fillRect(0, 0, size.width, size.height);
     ctx.fillStyle = '#121212';
-    ctx.fillRect(0, 0, visualWidth, visualHeight);
+    ctx.fillRect(toScreenX(0), toScreenY(0), fieldWidth * scale, fieldHeight * scale);
+
+    // Draw the shared board underneath everything else
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(boardImage, toScreenX(0), toScreenY(0), boardImage.width * scale, boardImage.height * scale);
+
+    // Draw map walls and spawn points, only the tiles in view
+    if (map) {
+      const tile = map.tileSize * scale;
+      const firstColumn = Math.max(0, Math.floor(camera.left / map.tileSize));
+      const lastColumn = Math.min(map.columns - 1, Math.floor((camera.left + camera.width) / map.tileSize));
+      const firstRow = Math.max(0, Math.floor(camera.top / map.tileSize));
+      const lastRow = Math.min(map.rows - 1, Math.floor((camera.top + camera.height) / map.tileSize));
+
+      ctx.fillStyle = '#3a3a4a';
+      for (let row = firstRow; row <= lastRow; row++) {
+        for (let column = firstColumn; column <= lastColumn; column++) {
+          if (!map.walls[row * map.columns + column]) continue;
+          ctx.fillRect(toScreenX(column * map.tileSize), toScreenY(row * map.tileSize), tile, tile);
+        }
+      }
+
+      ctx.strokeStyle = '#2f4f3f';
+      ctx.lineWidth = 1;
+      map.spawns.forEach((spawn) => {
+        ctx.beginPath();
+        ctx.arc(toScreenX(spawn.x + playerSize / 2), toScreenY(spawn.y + playerSize / 2), tile / 3, 0, Math.PI * 2);
+        ctx.stroke();
+      });
+    }
 
-    // Draw grid lines (every 20 game units)
+    // Draw grid lines (every GRID_STEP game units) in view
     ctx.strokeStyle = '#292929';
     ctx.lineWidth = 1;
-
-    // Draw vertical grid lines
-    for (let x = 0; x <= fieldWidth; x += 20) {
+    const gridLeft = Math.max(0, Math.ceil(camera.left / GRID_STEP) * GRID_STEP);
+    const gridRight = Math.min(fieldWidth, camera.left + camera.width);
+    for (let x = gridLeft; x <= gridRight; x += GRID_STEP) {
       ctx.beginPath();
-      ctx.moveTo(x * scale, 0);
-      ctx.lineTo(x * scale, visualHeight);
+      ctx.moveTo(toScreenX(x), toScreenY(0));
+      ctx.lineTo(toScreenX(x), toScreenY(fieldHeight));
       ctx.stroke();
     }
-
-    // Draw horizontal grid lines
-    for (let y = 0; y <= fieldHeight; y += 20) {
+    const gridTop = Math.max(0, Math.ceil(camera.top / GRID_STEP) * GRID_STEP);
+    const gridBottom = Math.min(fieldHeight, camera.top + camera.height);
+    for (let y = gridTop; y <= gridBottom; y += GRID_STEP) {
       ctx.beginPath();
-      ctx.moveTo(0, y * scale);
-      ctx.lineTo(visualWidth, y * scale);
+      ctx.moveTo(toScreenX(0), toScreenY(y));
+      ctx.lineTo(toScreenX(fieldWidth), toScreenY(y));
       ctx.stroke();
     }
 
     // Draw border
     ctx.strokeStyle = '#444';
     ctx.lineWidth = 2;
-    ctx.strokeRect(0, 0, visualWidth, visualHeight);
+    ctx.strokeRect(toScreenX(0), toScreenY(0), fieldWidth * scale, fieldHeight * scale);
+
+    // Draw collectibles as diamonds; rare ones are gold
+    const itemSize = COLLECTIBLE_SIZE * scale;
+    collectibles.forEach((item) => {
+      if (item.x + COLLECTIBLE_SIZE < camera.left || item.x > camera.left + camera.width) return;
+      if (item.y + COLLECTIBLE_SIZE < camera.top || item.y > camera.top + camera.height) return;
+      const centerX = toScreenX(item.x) + itemSize / 2;
+      const centerY = toScreenY(item.y) + itemSize / 2;
+      ctx.fillStyle = item.value > COLLECTIBLE_VALUE ? '#facc15' : '#22d3ee';
+      ctx.beginPath();
+      ctx.moveTo(centerX, centerY - itemSize / 2);
+      ctx.lineTo(centerX + itemSize / 2, centerY);
+      ctx.lineTo(centerX, centerY + itemSize / 2);
+      ctx.lineTo(centerX - itemSize / 2, centerY);
+      ctx.closePath();
+      ctx.fill();
+    });
+
+    const isVisible = (player: Player) =>
+      player.x + playerSize >= camera.left && player.x <= camera.left + camera.width &&
+      player.y + playerSize >= camera.top && player.y <= camera.top + camera.height;
+    const visiblePlayers = players.filter(isVisible);
 
     // Draw players
-    players.forEach((player) => {
-      const visualSize = playerSize * scale;
-      
+    visiblePlayers.forEach((player) => {
+      const screenX = toScreenX(player.x);
+      const screenY = toScreenY(player.y);
+
+      // Players waiting to reconnect are drawn faded
+      ctx.globalAlpha = player.status === 'reconnecting' ? 0.4 : 1;
+
       // Draw player square
       ctx.fillStyle = player.color;
-      ctx.fillRect(
-        player.x * scale, 
-        player.y * scale, 
-        visualSize, 
-        visualSize
-      );
-      
+      ctx.fillRect(screenX, screenY, visualSize, visualSize);
+
       // Highlight current player with border
       if (player.id === currentPlayerId) {
         ctx.strokeStyle = '#fff';
         ctx.lineWidth = 2;
-        ctx.strokeRect(
-          player.x * scale - 1, 
-          player.y * scale - 1, 
-          visualSize + 2, 
-          visualSize + 2
-        );
+        ctx.strokeRect(screenX - 1, screenY - 1, visualSize + 2, visualSize + 2);
       }
-      
+
       // Draw player name
       ctx.font = '12px Arial';
       ctx.fillStyle = '#fff';
       ctx.textAlign = 'center';
-      ctx.fillText(
-        player.name, 
-        player.x * scale + (visualSize / 2), 
-        player.y * scale - 5
+      ctx.fillText(player.name, screenX + visualSize / 2, screenY - 5);
+    });
+    ctx.globalAlpha = 1;
+
+    layers.forEach((layer) =>
+      layer({ ctx, toScreenX, toScreenY, scale, playerSize, players: visiblePlayers, currentPlayerId })
+    );
+
+    // Speech bubbles go last so they are never hidden under other players
+    visiblePlayers.forEach((player) => {
+      const text = bubbles[player.id];
+      if (!text) return;
+      drawSpeechBubble(ctx, text, toScreenX(player.x) + visualSize / 2, toScreenY(player.y) - 22);
+    });
+
+    // Minimap: the whole world, every player in the room and the current view
+    const miniScale = MINIMAP_SIZE / Math.max(fieldWidth, fieldHeight);
+    const miniWidth = fieldWidth * miniScale;
+    const miniHeight = fieldHeight * miniScale;
+    const miniLeft = size.width - miniWidth - MINIMAP_MARGIN;
+    const miniTop = MINIMAP_MARGIN;
+
+    ctx.fillStyle = 'rgba(18, 18, 18, 0.85)';
+    ctx.fillRect(miniLeft, miniTop, miniWidth, miniHeight);
+    if (minimapImage) ctx.drawImage(minimapImage, miniLeft, miniTop, miniWidth, miniHeight);
+
+    const drawDot = (position: { x: number; y: number }, color: string, dot: number) => {
+      ctx.fillStyle = color;
+      ctx.fillRect(
+        miniLeft + (position.x + playerSize / 2) * miniScale - dot / 2,
+        miniTop + (position.y + playerSize / 2) * miniScale - dot / 2,
+        dot,
+        dot
       );
+    };
+    minimapPlayers.forEach((player) => {
+      if (player.playerId !== currentPlayerId) drawDot(player, player.color, 3);
     });
-  }, [players, currentPlayerId, fieldWidth, fieldHeight, visualWidth, visualHeight, playerSize, scale]);
+    // Our own dot follows the predicted position instead of the once-a-second update
+    const self = players.find(player => player.id === currentPlayerId);
+    if (self) drawDot(self, '#fff', 4);
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(
+      miniLeft + Math.max(0, camera.left) * miniScale,
+      miniTop + Math.max(0, camera.top) * miniScale,
+      Math.min(fieldWidth, camera.width) * miniScale,
+      Math.min(fieldHeight, camera.height) * miniScale
+    );
+    ctx.strokeStyle = '#444';
+    ctx.strokeRect(miniLeft, miniTop, miniWidth, miniHeight);
+  }, [players, minimapPlayers, bubbles, boardImage, minimapImage, map, collectibles, camera, size, effectiveZoom, currentPlayerId, layers, fieldWidth, fieldHeight, playerSize]);
+
+  const dpr = window.devicePixelRatio || 1;
 
   return (
-    <div className="game-field-container relative shadow-xl rounded-lg overflow-hidden border border-gray-700">
+    <div
+      ref={containerRef}
+      className="game-field-container relative shadow-xl rounded-lg overflow-hidden border border-gray-700 h-[60vh] min-h-[300px]"
+    >
       <canvas
         ref={canvasRef}
-        width={visualWidth}
-        height={visualHeight}
-        className="block"
+        width={size.width * dpr}
+        height={size.height * dpr}
+        style={{ width: size.width, height: size.height }}
+        className={`block ${onCellClick ? 'cursor-crosshair' : ''}`}
+        onClick={handleClick}
       />
       <div className="absolute bottom-2 left-2 text-xs text-gray-400">
-        Use W, A, S, D keys to move
+        Use W, A, S, D keys to move, mouse wheel to zoom
       </div>
+      {hud}
     </div>
   );
 };
 
-export default GameField;
\ No newline at end of file
+export default GameField;
@@ -1,25 +1,89 @@
-import React, { useState } from 'react';
-import { Edit, Check } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Edit, Check, LogOut, Timer } from 'lucide-react';
+import { RoundState } from '../modes';
+import { MAX_PLAYER_NAME_LENGTH } from '../../shared/protocol';
 
 interface GameHeaderProps {
   playerName: string;
   onNameChange: (name: string) => void;
+  // Current player's color; null until the player has joined
+  playerColor: string | null;
+  onColorChange: (color: string) => void;
   connectedPlayers: number;
+  roomName: string;
+  onLeaveRoom: () => void;
+  modeLabel: string;
+  // Round timer for modes with rounds; null for modes without them
+  round: RoundState | null;
 }
 
+// The color input fires while the picker is dragged; only the settled color is sent
+const COLOR_CHANGE_DELAY = 300;
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Round timer and status for modes with rounds
+const RoundStatus: React.FC<{ round: RoundState }> = ({ round }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (round.endsAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [round.endsAt]);
+
+  const remaining = round.endsAt === null ? 0 : round.endsAt - now;
+  let status: string;
+  if (round.phase === 'playing') {
+    status = formatCountdown(remaining);
+  } else if (round.phase === 'intermission' && remaining > 0) {
+    const winner = round.winner ? `${round.winner.name} won · ` : '';
+    status = `${winner}next round in ${formatCountdown(remaining)}`;
+  } else {
+    status = 'Waiting for players';
+  }
+
+  return (
+    <div className="ml-2 px-2 py-1 bg-red-900 rounded-full text-xs text-red-200 flex items-center tabular-nums">
+      <Timer size={12} className="mr-1" />
+      {status}
+    </div>
+  );
+};
+
 const GameHeader: React.FC<GameHeaderProps> = ({
   playerName,
   onNameChange,
+  playerColor,
+  onColorChange,
   connectedPlayers,
+  roomName,
+  onLeaveRoom,
+  modeLabel,
+  round,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [nameInput, setNameInput] = useState(playerName);
+  const [colorInput, setColorInput] = useState(playerColor);
+
+  useEffect(() => {
+    setColorInput(playerColor);
+  }, [playerColor]);
+
+  useEffect(() => {
+    if (!colorInput || colorInput === playerColor) return;
+    const timeout = setTimeout(() => onColorChange(colorInput), COLOR_CHANGE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [colorInput, playerColor, onColorChange]);
 
   const handleNameSubmit = () => {
-    if (nameInput.trim()) {
-      onNameChange(nameInput.trim());
-      setIsEditing(false);
-    }
+    const name = nameInput.trim();
+    if (!name) return;
+    if (name !== playerName) onNameChange(name);
+    setIsEditing(false);
   };
 
   return (
@@ -30,14 +94,38 @@ const GameHeader: React.FC<GameHeaderProps> = ({
           <div className="ml-4 px-2 py-1 bg-green-800 rounded-full text-xs text-green-200">
             {connectedPlayers} online
           </div>
+          <div className="ml-2 px-2 py-1 bg-gray-700 rounded-full text-xs text-gray-200">
+            Room: {roomName}
+          </div>
+          <button
+            onClick={onLeaveRoom}
+            className="ml-2 text-gray-400 hover:text-white transition-colors"
+            title="Leave room"
+          >
+            <LogOut size={14} />
+          </button>
+          <div className="ml-2 px-2 py-1 bg-indigo-900 rounded-full text-xs text-indigo-200">
+            {modeLabel}
+          </div>
+          {round && <RoundStatus round={round} />}
         </div>
         
         <div className="flex items-center">
+          {colorInput && (
+            <input
+              type="color"
+              value={colorInput}
+              onChange={(e) => setColorInput(e.target.value)}
+              className="mr-3 w-6 h-6 rounded-sm bg-transparent cursor-pointer"
+              title="Player color"
+            />
+          )}
           {isEditing ? (
             <div className="flex items-center bg-gray-700 rounded px-2 py-1">
               <input
                 type="text"
                 value={nameInput}
+                maxLength={MAX_PLAYER_NAME_LENGTH}
                 onChange={(e) => setNameInput(e.target.value)}
                 className="bg-transparent text-white outline-none"
                 autoFocus
@@ -57,7 +145,10 @@ const GameHeader: React.FC<GameHeaderProps> = ({
             <div className="flex items-center text-white">
               <span>Playing as: <strong>{playerName}</strong></span>
               <button
-                onClick={() => setIsEditing(true)}
+                onClick={() => {
+                  setNameInput(playerName);
+                  setIsEditing(true);
+                }}
                 className="ml-2 text-gray-400 hover:text-white transition-colors"
               >
                 <Edit size={14} />
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import { ScoreEntry } from '../../shared/modes';
+
+interface LeaderboardPanelProps {
+  // All-time collectible scores, highest first
+  entries: ScoreEntry[];
+  currentPlayerId: string | null;
+  // Current player's all-time score; null until the server reports it
+  totalScore: number | null;
+}
+
+const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ entries, currentPlayerId, totalScore }) => {
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 shadow-lg mt-4">
+      <h2 className="text-xl font-bold mb-4 text-white flex items-center">
+        <Trophy className="inline-block mr-2" size={18} />
+        All-time leaders
+      </h2>
+
+      <ol className="space-y-1 max-h-60 overflow-y-auto pr-2">
+        {entries.map((entry, index) => (
+          <li
+            key={entry.playerId}
+            className={`flex items-center justify-between px-2 py-1 rounded ${
+              entry.playerId === currentPlayerId ? 'bg-gray-700' : 'bg-gray-900'
+            }`}
+          >
+            <span className="text-white truncate">
+              <span className="inline-block w-6 text-gray-400 tabular-nums">{index + 1}.</span>
+              {entry.name}
+              {entry.playerId === currentPlayerId && ' (you)'}
+            </span>
+            <span className="text-xs tabular-nums text-gray-200">{entry.score} pts</span>
+          </li>
+        ))}
+        {entries.length === 0 && (
+          <li className="text-sm text-gray-400">Nobody has collected anything yet.</li>
+        )}
+      </ol>
+
+      {totalScore !== null && (
+        <div className="mt-3 text-sm text-gray-300">
+          Your all-time score: <span className="tabular-nums text-white">{totalScore}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeaderboardPanel;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Paintbrush, Eraser } from 'lucide-react';
+import { EMPTY_PIXEL, PALETTE } from '../../shared/board';
+
+interface PaintToolbarProps {
+  paintMode: boolean;
+  onPaintModeChange: (enabled: boolean) => void;
+  color: number;
+  onColorChange: (color: number) => void;
+}
+
+const PaintToolbar: React.FC<PaintToolbarProps> = ({
+  paintMode,
+  onPaintModeChange,
+  color,
+  onColorChange,
+}) => {
+  return (
+    <div className="bg-gray-800 rounded-lg p-2 shadow-lg mt-4 flex items-center flex-wrap gap-2">
+      <button
+        onClick={() => onPaintModeChange(!paintMode)}
+        className={`flex items-center px-3 py-1 rounded text-sm transition-colors ${
+          paintMode ? 'bg-green-700 text-white' : 'bg-gray-700 text-gray-300 hover:text-white'
+        }`}
+      >
+        <Paintbrush size={14} className="mr-2" />
+        Paint {paintMode ? 'on' : 'off'}
+      </button>
+
+      {paintMode && (
+        <>
+          <div className="flex flex-wrap gap-1">
+            {PALETTE.map((swatch, index) => (
+              <button
+                key={index}
+                onClick={() => onColorChange(index)}
+                title={index === EMPTY_PIXEL ? 'Eraser' : swatch}
+                className={`w-6 h-6 rounded-sm flex items-center justify-center border-2 ${
+                  color === index ? 'border-white' : 'border-transparent'
+                }`}
+                style={{ backgroundColor: index === EMPTY_PIXEL ? '#121212' : swatch }}
+              >
+                {index === EMPTY_PIXEL && <Eraser size={12} className="text-gray-400" />}
+              </button>
+            ))}
+          </div>
+          <span className="text-xs text-gray-400">Space paints under you, click paints under the cursor</span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PaintToolbar;
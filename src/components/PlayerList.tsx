@@ -5,23 +5,33 @@ import { Player } from '../types/game';
 interface PlayerListProps {
   players: Player[];
   currentPlayerId: string | null;
+  // Live round scores by player id; empty for modes without rounds
+  scores: Record<string, number>;
+  // Game mode label next to a player (e.g. who is "it" in tag)
+  playerBadge: (playerId: string) => string | null;
 }
 
-const PlayerList: React.FC<PlayerListProps> = ({ players, currentPlayerId }) => {
-  const sortedPlayers = [...players].sort((a, b) => a.name.localeCompare(b.name));
+const pingColor = (ping: number) =>
+  ping < 100 ? 'text-green-400' : ping < 250 ? 'text-yellow-400' : 'text-red-400';
+
+const PlayerList: React.FC<PlayerListProps> = ({ players, currentPlayerId, scores, playerBadge }) => {
+  // Highest score first; players without a score (e.g. between rounds) by name
+  const sortedPlayers = [...players].sort((a, b) =>
+    (scores[b.id] ?? -1) - (scores[a.id] ?? -1) || a.name.localeCompare(b.name)
+  );
 
   return (
     <div className="bg-gray-800 rounded-lg p-4 shadow-lg">
       <h2 className="text-xl font-bold mb-4 text-white flex items-center">
         <User className="inline-block mr-2" size={18} />
-        Players ({players.length})
+        Nearby players ({players.length})
       </h2>
       
       <div className="space-y-2 max-h-60 overflow-y-auto pr-2">
         {sortedPlayers.map((player) => (
           <div
             key={player.id}
-            className={`flex items-center p-2 rounded transition-all duration-300 ${
+            className={`flex items-center justify-between p-2 rounded transition-all duration-300 ${
               player.id === currentPlayerId
                 ? 'bg-gray-700'
                 : 'bg-gray-900'
@@ -32,11 +42,33 @@ const PlayerList: React.FC<PlayerListProps> = ({ players, currentPlayerId }) =>
                 className="w-4 h-4 mr-3 rounded-sm"
                 style={{ backgroundColor: player.color }}
               />
-              <span className="text-white">
+              <span className={player.status === 'reconnecting' ? 'text-gray-400' : 'text-white'}>
                 {player.name}
                 {player.id === currentPlayerId && ' (you)'}
+                {player.status === 'reconnecting' && ' (reconnecting)'}
               </span>
-              <div className="ml-2 w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+              {playerBadge(player.id) && (
+                <span className="ml-2 px-1 rounded bg-red-600 text-xs font-bold text-white">
+                  {playerBadge(player.id)}
+                </span>
+              )}
+              {player.status === 'reconnecting' ? (
+                <div className="ml-2 w-2 h-2 rounded-full bg-yellow-500" />
+              ) : (
+                <div className="ml-2 w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+              )}
+            </div>
+            <div className="flex items-center space-x-3">
+              {scores[player.id] !== undefined && (
+                <span className="text-xs tabular-nums text-gray-200">
+                  {scores[player.id]} pts
+                </span>
+              )}
+              {player.ping !== undefined && (
+                <span className={`text-xs tabular-nums ${pingColor(player.ping)}`}>
+                  {player.ping} ms
+                </span>
+              )}
             </div>
           </div>
         ))}
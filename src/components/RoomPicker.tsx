@@ -0,0 +1,116 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { DoorOpen, RefreshCw } from 'lucide-react';
+import gameWebSocket from '../lib/websocket';
+import { MAX_ROOM_NAME_LENGTH, normalizeRoomName, RoomInfo } from '../../shared/rooms';
+import { DEFAULT_GAME_MODE, GAME_MODES, GameModeName } from '../../shared/modes';
+import { getClientMode } from '../modes';
+
+interface RoomPickerProps {
+  // mode is only set when creating a new room
+  onSelect: (room: string, mode?: GameModeName) => void;
+}
+
+const RoomPicker: React.FC<RoomPickerProps> = ({ onSelect }) => {
+  const [rooms, setRooms] = useState<RoomInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [roomInput, setRoomInput] = useState('');
+  const [modeInput, setModeInput] = useState<GameModeName>(DEFAULT_GAME_MODE);
+
+  const loadRooms = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRooms(await gameWebSocket.listRooms());
+    } catch (err) {
+      console.error('Error loading rooms:', err);
+      setError('Could not load rooms from the game server.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRooms();
+  }, [loadRooms]);
+
+  const handleCreate = () => {
+    onSelect(normalizeRoomName(roomInput), modeInput);
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-gray-800 rounded-lg p-6 shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-white flex items-center">
+          <DoorOpen className="inline-block mr-2" size={18} />
+          Choose a room
+        </h2>
+        <button
+          onClick={loadRooms}
+          disabled={isLoading}
+          className="text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+        >
+          <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {error && <div className="mb-4 text-sm text-red-400">{error}</div>}
+
+      <div className="space-y-2 max-h-60 overflow-y-auto pr-2 mb-4">
+        {rooms.map((room) => {
+          const isFull = room.players >= room.capacity;
+          return (
+            <button
+              key={room.name}
+              onClick={() => onSelect(room.name)}
+              disabled={isFull}
+              className="w-full flex justify-between items-center p-2 rounded bg-gray-900 hover:bg-gray-700 transition-all duration-300 disabled:opacity-50 disabled:hover:bg-gray-900"
+            >
+              <span className="text-white">{room.name}</span>
+              <span className="text-xs text-gray-400">
+                {getClientMode(room.mode).label} · {room.players}/{room.capacity}
+              </span>
+            </button>
+          );
+        })}
+        {!isLoading && rooms.length === 0 && !error && (
+          <div className="text-sm text-gray-400">No rooms yet. Create one below.</div>
+        )}
+      </div>
+
+      <div className="flex items-center bg-gray-700 rounded px-2 py-1">
+        <input
+          type="text"
+          value={roomInput}
+          maxLength={MAX_ROOM_NAME_LENGTH}
+          placeholder="New room name"
+          onChange={(e) => setRoomInput(e.target.value)}
+          className="flex-1 bg-transparent text-white outline-none"
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleCreate();
+          }}
+        />
+        <select
+          value={modeInput}
+          onChange={(e) => setModeInput(e.target.value as GameModeName)}
+          className="ml-2 bg-gray-800 text-sm text-gray-200 rounded outline-none"
+          title="Game mode for a new room"
+        >
+          {GAME_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {getClientMode(mode).label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleCreate}
+          className="ml-2 text-green-400 hover:text-green-300"
+        >
+          Join
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RoomPicker;
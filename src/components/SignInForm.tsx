@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { LogIn } from 'lucide-react';
+import { AuthSession, MAX_PASSWORD_LENGTH, MIN_PASSWORD_LENGTH } from '../../shared/auth';
+import { isSupabaseAuthEnabled, register, signIn, signInWithSupabase } from '../lib/auth';
+
+interface SignInFormProps {
+  onSignedIn: (session: AuthSession) => void;
+  // Why the player has to sign in, e.g. the saved session was rejected
+  notice?: string | null;
+}
+
+type FormMode = 'sign-in' | 'register' | 'supabase';
+
+const SignInForm: React.FC<SignInFormProps> = ({ onSignedIn, notice }) => {
+  const [formMode, setFormMode] = useState<FormMode>('sign-in');
+  const [login, setLogin] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const session =
+        formMode === 'register' ? await register(login, password)
+        : formMode === 'supabase' ? await signInWithSupabase(login, password)
+        : await signIn(login, password);
+      onSignedIn(session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchMode = (mode: FormMode) => {
+    setFormMode(mode);
+    setError(null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-md mx-auto bg-gray-800 rounded-lg p-6 shadow-lg">
+      <h2 className="text-xl font-bold text-white flex items-center mb-4">
+        <LogIn className="inline-block mr-2" size={18} />
+        {formMode === 'register' ? 'Create an account' : 'Sign in'}
+      </h2>
+
+      {notice && !error && <div className="mb-4 text-sm text-yellow-400">{notice}</div>}
+      {error && <div className="mb-4 text-sm text-red-400">{error}</div>}
+
+      <div className="space-y-2 mb-4">
+        <input
+          type={formMode === 'supabase' ? 'email' : 'text'}
+          value={login}
+          placeholder={formMode === 'supabase' ? 'Email' : 'Username'}
+          autoComplete={formMode === 'supabase' ? 'email' : 'username'}
+          onChange={(e) => setLogin(e.target.value)}
+          className="w-full bg-gray-700 rounded px-2 py-1 text-white outline-none"
+          autoFocus
+          required
+        />
+        <input
+          type="password"
+          value={password}
+          placeholder="Password"
+          autoComplete={formMode === 'register' ? 'new-password' : 'current-password'}
+          minLength={formMode === 'register' ? MIN_PASSWORD_LENGTH : undefined}
+          maxLength={MAX_PASSWORD_LENGTH}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full bg-gray-700 rounded px-2 py-1 text-white outline-none"
+          required
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full py-1 rounded bg-green-700 hover:bg-green-600 text-white transition-colors disabled:opacity-50"
+      >
+        {formMode === 'register' ? 'Create account' : 'Sign in'}
+      </button>
+
+      <div className="mt-4 flex justify-between text-sm">
+        {formMode === 'register' ? (
+          <button type="button" onClick={() => switchMode('sign-in')} className="text-gray-400 hover:text-white">
+            I already have an account
+          </button>
+        ) : (
+          <button type="button" onClick={() => switchMode('register')} className="text-gray-400 hover:text-white">
+            Create an account
+          </button>
+        )}
+        {isSupabaseAuthEnabled && (
+          <button
+            type="button"
+            onClick={() => switchMode(formMode === 'supabase' ? 'sign-in' : 'supabase')}
+            className="text-gray-400 hover:text-white"
+          >
+            {formMode === 'supabase' ? 'Use a game account' : 'Sign in with Supabase'}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default SignInForm;
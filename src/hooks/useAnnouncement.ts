@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import gameWebSocket from '../lib/websocket';
+
+// Сколько показывать объявление, если игрок не закрыл его сам
+const ANNOUNCEMENT_DURATION = 15000;
+
+// Последнее объявление администратора сервера (см. server/admin.ts)
+export const useAnnouncement = () => {
+  const [announcement, setAnnouncement] = useState<string | null>(null);
+
+  useEffect(() => {
+    return gameWebSocket.onMessage((message) => {
+      if (message.type === 'announcement') setAnnouncement(message.payload.text);
+    });
+  }, []);
+
+  // Новое объявление заново запускает таймер
+  useEffect(() => {
+    if (announcement === null) return;
+    const timer = setTimeout(() => setAnnouncement(null), ANNOUNCEMENT_DURATION);
+    return () => clearTimeout(timer);
+  }, [announcement]);
+
+  const dismiss = useCallback(() => setAnnouncement(null), []);
+
+  return { announcement, dismiss };
+};
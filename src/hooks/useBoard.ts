@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import gameWebSocket from '../lib/websocket';
+import { Player, GameConfig } from '../types/game';
+import { decodeBoard, getBoardSize, PAINT_COOLDOWN, Pixel } from '../../shared/board';
+
+// Общая доска комнаты и режим рисования.
+// В режиме рисования пробел закрашивает клетку под игроком, клик — клетку под курсором.
+export const useBoard = (room: string | null, gameConfig: GameConfig, self: Player | null) => {
+  const [board, setBoard] = useState(() => {
+    const { width, height } = getBoardSize(gameConfig);
+    return new Uint8Array(width * height);
+  });
+  const [paintMode, setPaintMode] = useState(false);
+  const [color, setColor] = useState(1);
+  const lastPaintRef = useRef(0);
+  // Ширина доски; размер мира приходит в 'game_state'
+  const widthRef = useRef(getBoardSize(gameConfig).width);
+
+  // Позицию и выбранный цвет читаем через ref, чтобы обработчик клавиш не пересоздавался каждый кадр
+  const selfRef = useRef(self);
+  selfRef.current = self;
+  const colorRef = useRef(color);
+  colorRef.current = color;
+  const configRef = useRef(gameConfig);
+  configRef.current = gameConfig;
+
+  useEffect(() => {
+    const initial = getBoardSize(configRef.current);
+    widthRef.current = initial.width;
+    setBoard(new Uint8Array(initial.width * initial.height));
+    if (!room) return;
+
+    return gameWebSocket.onMessage((message) => {
+      if (message.type === 'game_state') {
+        // Размер доски совпадает с размером мира из настроек комнаты
+        const size = getBoardSize(message.payload.config);
+        try {
+          setBoard(decodeBoard(message.payload.board, size));
+          widthRef.current = size.width;
+        } catch (error) {
+          console.error('Failed to decode board:', error);
+        }
+      } else if (message.type === 'pixels') {
+        setBoard(prev => applyPixels(prev, message.payload.pixels, widthRef.current));
+      }
+    });
+  }, [room]);
+
+  const paint = useCallback((x: number, y: number) => {
+    const now = Date.now();
+    // Сервер всё равно проверит перезарядку, но лишние сообщения слать незачем
+    if (now - lastPaintRef.current < PAINT_COOLDOWN) return;
+    lastPaintRef.current = now;
+
+    const pixel = { x, y, color: colorRef.current };
+    gameWebSocket.paint(pixel);
+    // Показываем клетку сразу, не дожидаясь рассылки сервера
+    setBoard(prev => applyPixels(prev, [pixel], widthRef.current));
+  }, []);
+
+  useEffect(() => {
+    if (!paintMode) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.target instanceof HTMLInputElement) return;
+      e.preventDefault();
+      const player = selfRef.current;
+      if (!player) return;
+      const half = configRef.current.playerSize / 2;
+      paint(Math.floor(player.x + half), Math.floor(player.y + half));
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [paintMode, paint]);
+
+  return { board, paintMode, setPaintMode, color, setColor, paint };
+};
+
+const applyPixels = (board: Uint8Array, pixels: Pixel[], width: number): Uint8Array => {
+  const next = board.slice();
+  pixels.forEach(({ x, y, color }) => {
+    if (x < 0 || x >= width) return;
+    const index = y * width + x;
+    if (index >= 0 && index < next.length) next[index] = color;
+  });
+  return next;
+};
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import gameWebSocket from '../lib/websocket';
+import { ChatChannel, ChatEntry } from '../../shared/chat';
+
+// Сколько последних сообщений держать в панели чата
+const CHAT_HISTORY_LIMIT = 100;
+// Сколько мс облачко с репликой висит над игроком
+const BUBBLE_DURATION = 5000;
+
+export const useChat = (room: string | null) => {
+  const [messages, setMessages] = useState<ChatEntry[]>([]);
+  // Последняя реплика каждого игрока, пока она не истекла
+  const [bubbles, setBubbles] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    // История чата своя у каждой комнаты
+    setMessages([]);
+    setBubbles({});
+    if (!room) return;
+
+    const timers = new Map<string, number>();
+    const removeBubble = (playerId: string) => {
+      window.clearTimeout(timers.get(playerId));
+      timers.delete(playerId);
+      setBubbles(prev => {
+        if (!(playerId in prev)) return prev;
+        const next = { ...prev };
+        delete next[playerId];
+        return next;
+      });
+    };
+
+    const unsubscribe = gameWebSocket.onMessage((message) => {
+      if (message.type === 'player_left') {
+        removeBubble(message.payload.playerId);
+        return;
+      }
+      if (message.type !== 'chat') return;
+
+      const entry = message.payload;
+      setMessages(prev => [...prev, entry].slice(-CHAT_HISTORY_LIMIT));
+      setBubbles(prev => ({ ...prev, [entry.playerId]: entry.text }));
+      window.clearTimeout(timers.get(entry.playerId));
+      timers.set(entry.playerId, window.setTimeout(() => removeBubble(entry.playerId), BUBBLE_DURATION));
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach(timer => window.clearTimeout(timer));
+    };
+  }, [room]);
+
+  const sendChat = useCallback((channel: ChatChannel, text: string) => {
+    gameWebSocket.sendChat(channel, text);
+  }, []);
+
+  return { messages, bubbles, sendChat };
+};
@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import gameWebSocket from '../lib/websocket';
+import { Collectible } from '../../shared/collectibles';
+import { ScoreEntry } from '../../shared/modes';
+
+// Предметы на поле текущей комнаты и очки за них за всё время.
+// Раскладывает предметы и считает очки сервер, здесь только отражение его сообщений.
+export const useCollectibles = (room: string | null) => {
+  const [collectibles, setCollectibles] = useState<Collectible[]>([]);
+  const [leaderboard, setLeaderboard] = useState<ScoreEntry[]>([]);
+  // Очки текущего игрока за всё время; null — сервер ещё не сообщил
+  const [totalScore, setTotalScore] = useState<number | null>(null);
+
+  useEffect(() => {
+    // Предметы у каждой комнаты свои; полный список приходит в 'game_state'
+    setCollectibles([]);
+    if (!room) return;
+
+    return gameWebSocket.onMessage((message) => {
+      switch (message.type) {
+        case 'game_state':
+          setCollectibles(message.payload.collectibles);
+          break;
+        case 'collectibles_spawned':
+          setCollectibles(prev => [...prev, ...message.payload.collectibles]);
+          break;
+        case 'collectible_picked': {
+          const { id } = message.payload;
+          setCollectibles(prev => prev.filter(item => item.id !== id));
+          break;
+        }
+      }
+    });
+  }, [room]);
+
+  // Таблица рекордов и итог игрока общие для всех комнат и не сбрасываются при переходе
+  useEffect(() => {
+    return gameWebSocket.onMessage((message) => {
+      if (message.type === 'leaderboard') setLeaderboard(message.payload.entries);
+      else if (message.type === 'total_score') setTotalScore(message.payload.total);
+    });
+  }, []);
+
+  return { collectibles, leaderboard, totalScore };
+};
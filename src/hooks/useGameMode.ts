@@ -0,0 +1,84 @@
+import { useState, useEffect } from 'react';
+import gameWebSocket from '../lib/websocket';
+import { ScoreEntry } from '../../shared/modes';
+import { ServerMessage } from '../../shared/protocol';
+import { AnyGameMode, DEFAULT_CLIENT_MODE, getClientMode, RoundState } from '../modes';
+
+const INITIAL_ROUND: RoundState = {
+  phase: 'waiting',
+  endsAt: null,
+  scores: {},
+  winner: null,
+};
+
+interface ModeSession {
+  mode: AnyGameMode;
+  // Состояние режима; его создаёт и читает только сам режим
+  state: unknown;
+  round: RoundState;
+}
+
+const createSession = (mode: AnyGameMode): ModeSession => ({
+  mode,
+  state: mode.initialState,
+  round: INITIAL_ROUND,
+});
+
+const toScoreMap = (scores: ScoreEntry[]): Record<string, number> =>
+  Object.fromEntries(scores.map(s => [s.playerId, s.score]));
+
+// Общий ход раунда: 'round_started' → 'scores' → 'round_ended'
+const reduceRound = (round: RoundState, message: ServerMessage): RoundState => {
+  switch (message.type) {
+    case 'round_started':
+      return {
+        phase: 'playing',
+        endsAt: Date.now() + message.payload.remaining,
+        scores: {},
+        winner: null,
+      };
+    case 'scores':
+      return { ...round, scores: toScoreMap(message.payload.scores) };
+    case 'round_ended': {
+      const { winner, scores, nextRoundIn } = message.payload;
+      return {
+        phase: nextRoundIn === undefined ? 'waiting' : 'intermission',
+        endsAt: nextRoundIn === undefined ? null : Date.now() + nextRoundIn,
+        scores: toScoreMap(scores),
+        winner: winner ?? null,
+      };
+    }
+    default:
+      return round;
+  }
+};
+
+// Игровой режим текущей комнаты: какой он (из 'game_state'), его состояние
+// и общий для режимов с раундами ход раунда. Правила режима — на сервере.
+export const useGameMode = (room: string | null) => {
+  const [session, setSession] = useState<ModeSession>(() => createSession(DEFAULT_CLIENT_MODE));
+
+  useEffect(() => {
+    // Режим у каждой комнаты свой
+    setSession(createSession(DEFAULT_CLIENT_MODE));
+    if (!room) return;
+
+    const unsubscribe = gameWebSocket.onMessage((message) => {
+      setSession(prev => {
+        // Полное состояние приходит при входе и после переподключения: сервер следом
+        // заново присылает и состояние режима, так что начинаем с чистого листа
+        const session = message.type === 'game_state'
+          ? createSession(getClientMode(message.payload.mode))
+          : prev;
+        const state = session.mode.reduce(session.state, message);
+        const round = reduceRound(session.round, message);
+        if (session === prev && state === prev.state && round === prev.round) return prev;
+        return { ...session, state, round };
+      });
+    });
+
+    return unsubscribe;
+  }, [room]);
+
+  return session;
+};
@@ -1,43 +1,62 @@
 // --- START OF FILE src/hooks/useGameState.ts ---
 
 import { useState, useEffect, useCallback } from 'react';
-import { v4 as uuidv4 } from 'uuid';
 import { Player, GameConfig } from '../types/game';
-import {
-  addPlayer,
-  subscribeToPlayers,
-  updatePlayerName as updatePlayerNameInDb,
-} from '../lib/supabase';
+import { DEFAULT_GAME_CONFIG, getCenterPosition } from '../../shared/movement';
 import gameWebSocket from '../lib/websocket';
+import { ErrorCode, ServerMessage } from '../../shared/protocol';
+import { createTileMap, TileMap } from '../../shared/map';
+import { GameModeName } from '../../shared/modes';
+import { AuthSession } from '../../shared/auth';
 
+// Яркий случайный цвет в формате #rrggbb (другие сервер не принимает).
+// Нужен только новому игроку: у вернувшегося цвет берётся из профиля на сервере.
 const getRandomColor = (): string => {
   const hue = Math.floor(Math.random() * 360);
-  return `hsl(${hue}, 100%, 65%)`;
-};
-
-const getCenterPosition = (config: GameConfig): { x: number; y: number } => {
-  return {
-    x: Math.floor(config.fieldWidth / 2),
-    y: Math.floor(config.fieldHeight / 2),
+  // hsl(hue, 100%, 65%) → rgb
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = 0.65 - 0.35 * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
   };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
 };
 
+// Ошибки, после которых игра в этом соединении невозможна (сервер обычно сразу его закрывает).
+// Остальные — отказ в отдельном действии (лимит сообщений, мьют, перезарядка кисти):
+// они показываются коротким уведомлением и пропадают сами
+const CONNECTION_ERRORS: ErrorCode[] = ['unsupported_version', 'handshake_required', 'room_full', 'session_conflict'];
+// Сколько показывать уведомление
+const NOTICE_DURATION = 4000;
+
 export const useGameState = (
+  session: AuthSession,
   initialName: string,
-  gameConfig: GameConfig
+  room: string | null,
+  // Режим комнаты, если она создаётся этим входом
+  mode?: GameModeName
 ) => {
   const [players, setPlayers] = useState<Player[]>([]);
   const [currentPlayer, setCurrentPlayer] = useState<Player | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Временное уведомление о непринятом действии; error — только для проблем соединения
+  const [notice, setNotice] = useState<string | null>(null);
+  const [map, setMap] = useState<TileMap | null>(null);
+  // Настройки комнаты приходят с сервером в 'game_state' и могут меняться на ходу
+  const [config, setConfig] = useState<GameConfig | null>(null);
 
   // useEffect для создания игрока
   useEffect(() => {
-    let isMounted = true;
-    const setupGame = async () => {
+    // Пока комната не выбрана, игра не начинается
+    if (!room) return;
+
+    const setupGame = () => {
       try {
-        const { x, y } = getCenterPosition(gameConfig);
-        const playerId = uuidv4();
+        // Место появления выдаст сервер; до 'game_state' игрок стоит в центре поля по умолчанию
+        const { x, y } = getCenterPosition(DEFAULT_GAME_CONFIG);
+        // id игрока сервер берёт из токена сессии; здесь он тот же, что и в токене
+        const { playerId } = session;
         const playerColor = getRandomColor();
         
         const newPlayer: Player = {
@@ -46,17 +65,13 @@ export const useGameState = (
           x,
           y,
           color: playerColor,
-          targetX: x,
-          targetY: y,
         };
         
-        await addPlayer(newPlayer);
-        if (!isMounted) return;
-        
+        // Игрока в хранилище регистрирует сервер по 'player_joined'
         setCurrentPlayer(newPlayer);
         // Начальное состояние - только текущий игрок. Сервер пришлет остальных.
         setPlayers([newPlayer]);
-        gameWebSocket.connect(newPlayer);
+        gameWebSocket.connect(newPlayer, session.token, room, mode);
         setIsConnected(true);
 
       } catch (err) {
@@ -68,9 +83,13 @@ export const useGameState = (
     setupGame();
 
     const cleanup = () => {
-      isMounted = false;
       console.log('Cleaning up game session...');
       gameWebSocket.disconnect();
+      setIsConnected(false);
+      setCurrentPlayer(null);
+      setPlayers([]);
+      setMap(null);
+      setConfig(null);
     };
     
     window.addEventListener('beforeunload', cleanup);
@@ -79,102 +98,159 @@ export const useGameState = (
       window.removeEventListener('beforeunload', cleanup);
       cleanup();
     };
-  }, [initialName, gameConfig]);
+  }, [session, initialName, room, mode]);
 
-  // useEffect для обработки сообщений WebSocket и подписок Supabase
+  // useEffect для обработки сообщений WebSocket
   useEffect(() => {
     if (!isConnected || !currentPlayer?.id) return;
 
     // Устанавливаем обработчик для сообщений с сервера
-    const handleWsMessage = (message: any) => {
+    const handleWsMessage = (message: ServerMessage) => {
       switch (message.type) {
-        case 'game_state':
-          // Это сообщение приходит один раз при подключении с полным списком игроков
+        case 'game_state': {
+          // Это сообщение приходит при подключении и смене комнаты с полным списком игроков
           console.log("Received initial game state:", message.payload.players);
-          const playersWithTargets = message.payload.players.map((p: Player) => ({
-            ...p,
-            targetX: p.x,
-            targetY: p.y,
-          }));
-          setPlayers(playersWithTargets);
-          break;
-
-        case 'position':
-          const { playerId, x, y } = message.payload;
-          // Обновляем целевые координаты для других игроков для плавной интерполяции
-          if (playerId !== currentPlayer?.id && x !== undefined && y !== undefined) {
-            setPlayers(prev => prev.map(p => 
-              p.id === playerId ? { ...p, targetX: x, targetY: y } : p
-            ));
+          // Вошли в комнату — прежние ошибки соединения больше не актуальны
+          setError(null);
+          setPlayers(message.payload.players);
+          // Имя и цвет сервер мог взять из сохранённого профиля
+          const self = message.payload.players.find(p => p.id === currentPlayer?.id);
+          if (self) setCurrentPlayer(prev => prev ? { ...prev, name: self.name, color: self.color } : null);
+          setConfig(message.payload.config);
+          try {
+            setMap(createTileMap(message.payload.map, message.payload.config));
+          } catch (err) {
+            console.error('Invalid map from server:', err);
+            setError('Received an invalid map from the server.');
           }
           break;
+        }
 
-        case 'player_joined':
+        case 'player_joined': {
           // Это сообщение приходит, когда ДРУГОЙ игрок присоединяется
-          const newPlayerData: Player = message.payload;
+          const newPlayerData = message.payload;
           if (newPlayerData.id !== currentPlayer?.id) {
             setPlayers(prev => {
               // Предотвращаем дублирование, если игрок уже есть в списке
               if (prev.some(p => p.id === newPlayerData.id)) return prev;
-              return [...prev, { ...newPlayerData, targetX: newPlayerData.x, targetY: newPlayerData.y }];
+              return [...prev, newPlayerData];
             });
           }
           break;
+        }
 
-        case 'player_left':
+        case 'player_left': {
           const { playerId: leftPlayerId } = message.payload;
           setPlayers(prev => prev.filter(p => p.id !== leftPlayerId));
           break;
-        
-        default:
-          console.warn('Unknown WebSocket message type:', message.type);
+        }
+
+        // Сервер сообщает только об игроках в нашей области интереса:
+        // вошедших добавляем (или обновляем), ушедших из виду — забываем
+        case 'view_enter': {
+          const entered = new Map(message.payload.players.map(p => [p.id, p]));
+          setPlayers(prev => [
+            ...prev.filter(p => !entered.has(p.id)),
+            ...entered.values(),
+          ]);
+          break;
+        }
+
+        case 'view_leave': {
+          const left = new Set(message.payload.playerIds);
+          setPlayers(prev => prev.filter(p => p.id === currentPlayer?.id || !left.has(p.id)));
+          break;
+        }
+
+        case 'player_updated': {
+          const { playerId: updatedPlayerId, name, color } = message.payload;
+          setPlayers(prev => prev.map(p => (p.id === updatedPlayerId ? { ...p, name, color } : p)));
+          if (updatedPlayerId === currentPlayer?.id) {
+            setCurrentPlayer(prev => prev ? { ...prev, name, color } : null);
+          }
+          break;
+        }
+
+        case 'player_status': {
+          const { playerId: statusPlayerId, status } = message.payload;
+          setPlayers(prev => prev.map(p => (p.id === statusPlayerId ? { ...p, status } : p)));
+          break;
+        }
+
+        case 'latency': {
+          const pings = new Map(message.payload.players.map(p => [p.playerId, p.rtt]));
+          setPlayers(prev => prev.map(p => (pings.has(p.id) ? { ...p, ping: pings.get(p.id) } : p)));
+          break;
+        }
+
+        case 'config_changed':
+          console.log('Room config changed:', message.payload.config);
+          setConfig(message.payload.config);
+          break;
+
+        case 'error':
+          console.error('Server error:', message.payload);
+          if (CONNECTION_ERRORS.includes(message.payload.code)) setError(message.payload.message);
+          else setNotice(message.payload.message);
+          break;
+
+        // Позиции из снимков применяет игровой цикл в useMovement, чат — useChat, доску — useBoard,
+        // режим комнаты и раунды — useGameMode, объявления — useAnnouncement
+        case 'snapshot':
+        case 'chat':
+        case 'pixels':
+        case 'collectibles_spawned':
+        case 'collectible_picked':
+        case 'leaderboard':
+        case 'total_score':
+        case 'round_started':
+        case 'scores':
+        case 'round_ended':
+        case 'it_changed':
+        case 'session':
+        case 'kicked':
+        case 'announcement':
+        case 'minimap':
+        case 'correction':
+        case 'ping':
+        case 'welcome':
+        case 'room_list':
+          break;
+
+        default: {
+          // Проверка полноты: новый тип сообщения без обработки не скомпилируется
+          const unhandled: never = message;
+          console.warn('Unhandled WebSocket message:', unhandled);
+        }
       }
     };
 
     const unsubscribeWs = gameWebSocket.onMessage(handleWsMessage);
-    
-    // Подписка на Supabase для обновлений имени/цвета
-    const subscription = subscribeToPlayers(
-      (updatedPlayers: Player[], eventType: string) => {
-        const playerRecord = updatedPlayers[0];
-        if (!playerRecord || eventType !== 'UPDATE') return;
-
-        setPlayers((prevPlayers) =>
-          prevPlayers.map((p) => 
-            p.id === playerRecord.id 
-            ? { ...p, name: playerRecord.name, color: playerRecord.color } 
-            : p
-          )
-        );
-            
-        if (playerRecord.id === currentPlayer?.id) {
-          setCurrentPlayer(prev => prev ? { ...prev, name: playerRecord.name, color: playerRecord.color } : null);
-        }
-      }
-    );
 
     return () => {
-      subscription?.unsubscribe();
       unsubscribeWs();
     };
   }, [isConnected, currentPlayer?.id]);
 
-  const updatePlayerName = useCallback(
-    async (name: string) => {
+  // Новое уведомление заново запускает таймер
+  useEffect(() => {
+    if (notice === null) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_DURATION);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  // Имя и цвет применяем только по 'player_updated' от сервера: он может их отвергнуть,
+  // и тогда у нас должно остаться то же, что видят остальные
+  const updateProfile = useCallback(
+    (changes: { name?: string; color?: string }) => {
       if (!currentPlayer) return;
-      try {
-        const updatedPlayer = { ...currentPlayer, name };
-        setCurrentPlayer(updatedPlayer);
-        setPlayers((prevPlayers) =>
-          prevPlayers.map((p) => (p.id === currentPlayer.id ? updatedPlayer : p))
-        );
-        await updatePlayerNameInDb(currentPlayer.id, name);
-      } catch (err) {
-        console.error('Error updating player name:', err);
-      }
+      gameWebSocket.updatePlayer(changes);
     },
     [currentPlayer]
   );
+
+  const updatePlayerName = useCallback((name: string) => updateProfile({ name }), [updateProfile]);
+  const updatePlayerColor = useCallback((color: string) => updateProfile({ color }), [updateProfile]);
   
   return {
     players,
@@ -182,6 +258,10 @@ export const useGameState = (
     currentPlayer,
     isConnected,
     error,
+    notice,
+    map,
+    config,
     updatePlayerName,
+    updatePlayerColor,
   };
 };
\ No newline at end of file
@@ -14,6 +14,10 @@ const keyMap: Record<string, Direction> = {
   ArrowRight: 'right',
 };
 
+// Typing in a text field (chat, name) must not move the player
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
 export const useKeyboardControls = () => {
   const [movement, setMovement] = useState({
     up: false,
@@ -23,6 +27,7 @@ export const useKeyboardControls = () => {
   });
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (isTextInput(e.target)) return;
     const direction = keyMap[e.code];
     if (direction) {
       e.preventDefault(); // Prevent default browser actions like scrolling
@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import gameWebSocket from '../lib/websocket';
+import { MinimapEntry } from '../../shared/protocol';
+
+// Все игроки комнаты для мини-карты. Снимки приходят только об игроках в области
+// интереса, поэтому сервер отдельно и редко присылает грубые позиции всех ('minimap')
+export const useMinimap = (room: string | null) => {
+  const [minimapPlayers, setMinimapPlayers] = useState<MinimapEntry[]>([]);
+
+  useEffect(() => {
+    // У каждой комнаты свои игроки; первый список приходит сразу после 'game_state'
+    setMinimapPlayers([]);
+    if (!room) return;
+
+    return gameWebSocket.onMessage((message) => {
+      if (message.type === 'minimap') setMinimapPlayers(message.payload.players);
+    });
+  }, [room]);
+
+  return { minimapPlayers };
+};
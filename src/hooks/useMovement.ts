@@ -1,94 +1,166 @@
 // --- START OF FILE src/hooks/useMovement.ts ---
 
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { Player, GameConfig } from '../types/game';
 import gameWebSocket from '../lib/websocket';
-import { updatePlayerPosition } from '../lib/supabase';
+import { MovementPredictor } from '../lib/prediction';
+import { MovementState, TICK_INTERVAL } from '../../shared/movement';
+import { EntityState } from '../../shared/protocol';
+import { TileMap } from '../../shared/map';
+import { DEFAULT_INTERPOLATION_OPTIONS, SnapshotInterpolator } from '../lib/interpolation';
 
-// Коэффициент интерполяции. Чем меньше, тем плавнее (но и "отставание" больше)
-const LERP_FACTOR = 0.2;
+// Задержку интерполяции можно подобрать под сеть через VITE_INTERPOLATION_DELAY (мс)
+const INTERPOLATION_DELAY =
+  Number(import.meta.env.VITE_INTERPOLATION_DELAY) || DEFAULT_INTERPOLATION_OPTIONS.delay;
 
-// Функция линейной интерполяции
-const lerp = (start: number, end: number, t: number) => {
-  return start * (1 - t) + end * t;
-};
-
-// Храним последнее время обновления для Supabase вне компонента, чтобы избежать сброса
-let lastDbUpdateTime = 0;
+// Не даём симуляции «догонять» слишком долго после сворачивания вкладки
+const MAX_FRAME_TIME = 250;
 
 export const useMovement = (
   // players и playersRef больше не нужны здесь
   setPlayers: React.Dispatch<React.SetStateAction<Player[]>>,
-  movement: { up: boolean; down: boolean; left: boolean; right: boolean; },
+  movement: MovementState,
   currentPlayer: Player | null,
-  gameConfig: GameConfig
+  gameConfig: GameConfig,
+  map: TileMap | null
 ) => {
+  const predictorRef = useRef(new MovementPredictor());
+  // Ввод читаем через ref, чтобы нажатия клавиш не перезапускали игровой цикл
+  const movementRef = useRef(movement);
+  movementRef.current = movement;
+
+  // Карта и размер мира приходят вместе с 'game_state' и не должны перезапускать цикл
+  const mapRef = useRef(map);
+  mapRef.current = map;
+  const configRef = useRef(gameConfig);
+  configRef.current = gameConfig;
+
+  const currentPlayerId = currentPlayer?.id;
+  const spawnRef = useRef(currentPlayer);
+  spawnRef.current = currentPlayer;
+
   useEffect(() => {
-    if (!currentPlayer) return;
+    if (!currentPlayerId || !spawnRef.current) return;
+
+    const predictor = predictorRef.current;
+    predictor.reset(spawnRef.current);
+    const interpolator = new SnapshotInterpolator({ delay: INTERPOLATION_DELAY });
+    // Последние известные серверные позиции остальных игроков — о них упирается предсказание.
+    // Берём их, а не отрисованные с задержкой: так мы ближе к тому, что видит сервер.
+    const others: Map<string, { x: number; y: number }> = new Map();
+
+    const handleSnapshot = (time: number, entities: EntityState[]) => {
+      entities.forEach(({ playerId, x, y, seq }) => {
+        // Своего игрока сверяем с авторитетным состоянием сервера
+        if (playerId === currentPlayerId) {
+          predictor.reconcile({ x, y }, seq, configRef.current, mapRef.current, Array.from(others.values()));
+        } else {
+          interpolator.push(playerId, time, x, y);
+          others.set(playerId, { x, y });
+        }
+      });
+      interpolator.holdUnchanged(time, new Set(entities.map(e => e.playerId)));
+    };
+
+    // Неподтверждённые вводы потеряны вместе с соединением: их больше не нужно
+    // переигрывать при сверке. Позицию сервер пришлёт в 'game_state' после переподключения
+    const handleDisconnected = () => predictor.reset(predictor.getPosition());
+    gameWebSocket.on('disconnected', handleDisconnected);
+
+    const unsubscribe = gameWebSocket.onMessage((message) => {
+      switch (message.type) {
+        case 'game_state': {
+          interpolator.clear();
+          others.clear();
+          message.payload.players.forEach(p => {
+            if (p.id !== currentPlayerId) others.set(p.id, { x: p.x, y: p.y });
+          });
+          const self = message.payload.players.find(p => p.id === currentPlayerId);
+          if (self) predictor.reset(self);
+          break;
+        }
+        case 'player_joined':
+          others.set(message.payload.id, { x: message.payload.x, y: message.payload.y });
+          break;
+        case 'view_enter':
+          // Буфер интерполяции начинаем заново: старые снимки могли устареть, пока игрок был вне видимости
+          message.payload.players.forEach(p => {
+            if (p.id === currentPlayerId) return;
+            interpolator.remove(p.id);
+            others.set(p.id, { x: p.x, y: p.y });
+          });
+          break;
+        case 'player_left':
+          interpolator.remove(message.payload.playerId);
+          others.delete(message.payload.playerId);
+          break;
+        case 'view_leave':
+          message.payload.playerIds.forEach(id => {
+            interpolator.remove(id);
+            others.delete(id);
+          });
+          break;
+        case 'snapshot':
+          handleSnapshot(message.payload.time, message.payload.entities);
+          break;
+        case 'correction':
+          // Сервер отверг наши вводы — неподтверждённые шаги предсказания больше не действительны
+          predictor.reset({ x: message.payload.x, y: message.payload.y });
+          break;
+      }
+    });
 
     let animationFrameId: number;
+    let lastFrameTime = performance.now();
+    let accumulator = 0;
 
-    const gameLoop = () => {
-      setPlayers(prevPlayers => {
-        const now = Date.now();
+    const gameLoop = (now: number) => {
+      accumulator += Math.min(now - lastFrameTime, MAX_FRAME_TIME);
+      lastFrameTime = now;
+
+      // Симуляция идёт фиксированными тиками — той же частотой, что и на сервере.
+      // Без соединения игрок стоит: вводы не дойдут до сервера, и после переподключения
+      // предсказанный путь пришлось бы откатывать
+      const obstacles = Array.from(others.values());
+      const connected = gameWebSocket.isConnected();
+      while (accumulator >= TICK_INTERVAL) {
+        accumulator -= TICK_INTERVAL;
+        if (!connected) continue;
+        const input = predictor.step(movementRef.current, configRef.current, mapRef.current, obstacles);
+        if (input) gameWebSocket.sendInput(input);
+      }
+
+      const { x, y } = predictor.getPosition();
 
+      setPlayers(prevPlayers => {
         return prevPlayers.map((p) => {
-          // Логика для ТЕКУЩЕГО игрока (прямое управление)
-          if (p.id === currentPlayer.id) {
-            const { moveSpeed, fieldWidth, fieldHeight, playerSize } = gameConfig;
-            let { x, y } = p;
-
-            if (movement.up) y = Math.max(0, y - moveSpeed);
-            if (movement.down) y = Math.min(fieldHeight - playerSize, y + moveSpeed);
-            if (movement.left) x = Math.max(0, x - moveSpeed);
-            if (movement.right) x = Math.min(fieldWidth - playerSize, x + moveSpeed);
-            
-            // Если позиция изменилась, отправляем данные
+          // Логика для ТЕКУЩЕГО игрока (предсказанная позиция)
+          if (p.id === currentPlayerId) {
             if (x !== p.x || y !== p.y) {
-              // Отправляем по WebSocket на каждом изменении для плавной отрисовки у других
-              gameWebSocket.sendPosition(p.id, x, y);
-
-              // Обновляем в БД реже (throttling) для снижения нагрузки
-              if (now - lastDbUpdateTime > 100) {
-                lastDbUpdateTime = now;
-                updatePlayerPosition(p.id, x, y).catch(err => console.error("Failed to sync position", err));
-              }
-              
               return { ...p, x, y };
             }
             return p;
-          } 
-          // Логика для ДРУГИХ игроков (интерполяция)
-          else {
-            const targetX = p.targetX ?? p.x;
-            const targetY = p.targetY ?? p.y;
-            
-            // Если почти на месте, прекращаем интерполяцию для экономии ресурсов
-            if (Math.abs(p.x - targetX) < 0.1 && Math.abs(p.y - targetY) < 0.1) {
-              // Устанавливаем точную позицию, чтобы остановить дрожание
-               if (p.x !== targetX || p.y !== targetY) {
-                 return { ...p, x: targetX, y: targetY };
-               }
-               return p;
-            }
+          }
+          // Логика для ДРУГИХ игроков (интерполяция по буферу снимков)
+          const position = interpolator.sample(p.id);
+          if (!position) return p;
 
-            // Плавное движение к цели
-            const newX = lerp(p.x, targetX, LERP_FACTOR);
-            const newY = lerp(p.y, targetY, LERP_FACTOR);
-            
-            return { ...p, x: newX, y: newY };
+          if (position.x !== p.x || position.y !== p.y) {
+            return { ...p, ...position };
           }
+          return p;
         });
       });
 
       animationFrameId = requestAnimationFrame(gameLoop);
     };
 
-    gameLoop();
+    animationFrameId = requestAnimationFrame(gameLoop);
 
     return () => {
+      unsubscribe();
+      gameWebSocket.off('disconnected', handleDisconnected);
       cancelAnimationFrame(animationFrameId);
     };
-  // Убираем setPlayers из зависимостей, так как она стабильна, и убираем players
-  }, [movement, currentPlayer, gameConfig]); 
-};
\ No newline at end of file
+  }, [setPlayers, currentPlayerId]);
+};
@@ -0,0 +1,93 @@
+import { AUTH_PATHS, AuthErrorResponse, AuthSession } from '../../shared/auth';
+import { WEBSOCKET_URL } from './websocket';
+
+// Вход в игру. Токен сессии выдаёт игровой сервер (см. shared/auth.ts),
+// он хранится в localStorage и передаётся при подключении к WebSocket.
+
+const SESSION_STORAGE_KEY = 'game.session';
+
+// HTTP-адрес игрового сервера: по умолчанию тот же хост, что и у WebSocket
+const AUTH_URL = import.meta.env.VITE_AUTH_URL || WEBSOCKET_URL.replace(/^ws/, 'http');
+
+// Вход через Supabase Auth доступен, только если клиенту известен проект Supabase
+const SUPABASE_URL: string | undefined = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY: string | undefined = import.meta.env.VITE_SUPABASE_ANON_KEY;
+export const isSupabaseAuthEnabled = Boolean(SUPABASE_URL && SUPABASE_ANON_KEY);
+
+export class AuthRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthRequestError';
+  }
+}
+
+// Сохранённая сессия, если её токен ещё действует
+export const loadSession = (): AuthSession | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as AuthSession;
+    return session.expiresAt > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveSession = (session: AuthSession) => {
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+};
+
+export const signOut = () => {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+};
+
+const postAuth = async (path: string, body: Record<string, string>): Promise<AuthSession> => {
+  let response: Response;
+  try {
+    response = await fetch(`${AUTH_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new AuthRequestError('Could not reach the game server.');
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new AuthRequestError((data as AuthErrorResponse | null)?.error.message ?? 'Sign-in failed.');
+  }
+  const session = data as AuthSession;
+  saveSession(session);
+  return session;
+};
+
+export const signIn = (username: string, password: string) =>
+  postAuth(AUTH_PATHS.login, { username, password });
+
+export const register = (username: string, password: string) =>
+  postAuth(AUTH_PATHS.register, { username, password });
+
+// Входим в Supabase Auth по почте и паролю, затем меняем его токен на токен игрового сервера
+export const signInWithSupabase = async (email: string, password: string): Promise<AuthSession> => {
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new AuthRequestError('Supabase sign-in is not configured.');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${SUPABASE_URL}/auth/v1/token?grant_type=password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', apikey: SUPABASE_ANON_KEY },
+      body: JSON.stringify({ email, password }),
+    });
+  } catch {
+    throw new AuthRequestError('Could not reach Supabase.');
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || typeof data?.access_token !== 'string') {
+    throw new AuthRequestError(data?.error_description ?? data?.msg ?? 'Wrong email or password');
+  }
+  return postAuth(AUTH_PATHS.supabase, { accessToken: data.access_token });
+};
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { InterpolationOptions, SnapshotInterpolator } from './interpolation';
+
+// Поддельные часы: время двигает сам тест. Снимки приходят без задержки
+// (время сервера совпадает с локальным), поэтому отрисовка отстаёт ровно на delay
+const createInterpolator = (options: Partial<InterpolationOptions> = {}) => {
+  let now = 0;
+  const interpolator = new SnapshotInterpolator(
+    { delay: 100, maxExtrapolation: 250, snapDistance: 10, smoothing: 0, ...options },
+    () => now
+  );
+  const at = (time: number) => {
+    now = time;
+  };
+  return { interpolator, at };
+};
+
+describe('SnapshotInterpolator', () => {
+  it('knows nothing about entities without snapshots', () => {
+    const { interpolator } = createInterpolator();
+    expect(interpolator.sample('a')).toBeNull();
+  });
+
+  it('interpolates between two snapshots delay behind the server', () => {
+    const { interpolator, at } = createInterpolator();
+    at(0);
+    interpolator.push('a', 0, 0, 10);
+    at(50);
+    interpolator.push('a', 50, 5, 20);
+
+    at(100);
+    expect(interpolator.sample('a')).toEqual({ x: 0, y: 10 });
+    at(125);
+    expect(interpolator.sample('a')).toEqual({ x: 2.5, y: 15 });
+    at(150);
+    expect(interpolator.sample('a')).toEqual({ x: 5, y: 20 });
+  });
+
+  it('extrapolates by the last velocity no further than maxExtrapolation', () => {
+    const { interpolator, at } = createInterpolator();
+    at(0);
+    interpolator.push('a', 0, 0, 0);
+    at(50);
+    interpolator.push('a', 50, 5, 0);
+
+    // 50 мс после последнего снимка при скорости 0.1 единицы в мс
+    at(200);
+    expect(interpolator.sample('a')).toEqual({ x: 10, y: 0 });
+    // Дальше 250 мс не заглядываем, сколько бы ни ждали
+    at(1000);
+    expect(interpolator.sample('a')).toEqual({ x: 30, y: 0 });
+    at(5000);
+    expect(interpolator.sample('a')).toEqual({ x: 30, y: 0 });
+  });
+
+  it('stands still with a single snapshot', () => {
+    const { interpolator, at } = createInterpolator();
+    at(0);
+    interpolator.push('a', 0, 3, 4);
+    at(1000);
+    expect(interpolator.sample('a')).toEqual({ x: 3, y: 4 });
+  });
+
+  it('smooths small corrections and snaps on large jumps', () => {
+    const { interpolator, at } = createInterpolator({ smoothing: 50 });
+    at(0);
+    interpolator.push('a', 0, 0, 0);
+    at(50);
+    interpolator.push('a', 50, 5, 0);
+
+    at(100);
+    expect(interpolator.sample('a')).toEqual({ x: 0, y: 0 });
+    // Цель — 2.5, но за 25 мс сглаживание проходит только часть пути
+    at(125);
+    const smoothed = interpolator.sample('a')!;
+    expect(smoothed.x).toBeCloseTo(2.5 * (1 - Math.exp(-25 / 50)));
+    expect(smoothed.y).toBe(0);
+
+    // Скачок дальше snapDistance (например, телепорт) применяется сразу
+    at(150);
+    interpolator.push('a', 150, 105, 0);
+    at(250);
+    expect(interpolator.sample('a')).toEqual({ x: 105, y: 0 });
+  });
+
+  it('puts late snapshots in order and drops duplicates', () => {
+    const { interpolator, at } = createInterpolator();
+    at(0);
+    interpolator.push('a', 0, 0, 0);
+    at(100);
+    interpolator.push('a', 100, 100, 0);
+    // Опоздавший снимок: между 0 и 50 мс сущность стояла на месте
+    interpolator.push('a', 50, 0, 0);
+    // Повтор уже известного снимка с другими данными не применяется
+    interpolator.push('a', 50, 0, 80);
+
+    // Опоздавший снимок немного сдвигает оценку часов, поэтому проверяем участки,
+    // где ответ от этого не зависит: стояние на месте и y, который везде 0
+    at(125);
+    expect(interpolator.sample('a')).toEqual({ x: 0, y: 0 });
+    at(175);
+    const moving = interpolator.sample('a')!;
+    expect(moving.x).toBeGreaterThan(0);
+    expect(moving.x).toBeLessThan(100);
+    expect(moving.y).toBe(0);
+  });
+
+  it('holds unchanged entities at their last position', () => {
+    const { interpolator, at } = createInterpolator();
+    at(0);
+    interpolator.push('a', 0, 0, 0);
+    interpolator.push('b', 0, 10, 10);
+    at(50);
+    interpolator.push('a', 50, 5, 0);
+    // 'b' в снимке не было — значит, стоял на месте, и экстраполировать его нельзя
+    interpolator.holdUnchanged(50, new Set(['a']));
+
+    at(300);
+    expect(interpolator.sample('a')).toEqual({ x: 20, y: 0 });
+    expect(interpolator.sample('b')).toEqual({ x: 10, y: 10 });
+  });
+});
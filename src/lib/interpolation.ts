@@ -0,0 +1,165 @@
+import { SNAPSHOT_INTERVAL } from '../../shared/protocol';
+
+// Интерполяция удалённых сущностей по буферу снимков.
+// Сущности отрисовываются с задержкой delay относительно времени сервера,
+// поэтому почти всегда есть два снимка, между которыми можно интерполировать.
+// Если буфер иссяк (пакеты задержались), позиция экстраполируется по последней
+// скорости, но не дальше maxExtrapolation мс. Класс не зависит от React и
+// принимает часы извне, так что его поведение воспроизводимо с поддельным временем.
+
+export type Clock = () => number;
+
+export interface InterpolationOptions {
+  // Задержка отрисовки относительно сервера, мс
+  delay: number;
+  // Максимальное время экстраполяции после последнего снимка, мс
+  maxExtrapolation: number;
+  // Расхождение (в единицах поля), после которого сущность перемещается мгновенно
+  snapDistance: number;
+  // Постоянная времени сглаживания поправок, мс (0 — без сглаживания)
+  smoothing: number;
+  // Сколько снимков хранить на сущность
+  bufferSize: number;
+}
+
+export const DEFAULT_INTERPOLATION_OPTIONS: InterpolationOptions = {
+  delay: SNAPSHOT_INTERVAL * 2,
+  maxExtrapolation: 250,
+  snapDistance: 10,
+  smoothing: 50,
+  bufferSize: 32,
+};
+
+// Доля, с которой оценка смещения часов подстраивается под более поздние пакеты
+const OFFSET_ADJUST_RATE = 0.05;
+
+interface BufferedState {
+  time: number;
+  x: number;
+  y: number;
+}
+
+interface EntityTrack {
+  buffer: BufferedState[];
+  rendered: { x: number; y: number } | null;
+  renderedAt: number;
+}
+
+export class SnapshotInterpolator {
+  private options: InterpolationOptions;
+  private entities: Map<string, EntityTrack> = new Map();
+  // Оценка (время сервера − локальное время); null, пока не пришёл первый снимок
+  private clockOffset: number | null = null;
+
+  constructor(options: Partial<InterpolationOptions> = {}, private clock: Clock = () => performance.now()) {
+    this.options = { ...DEFAULT_INTERPOLATION_OPTIONS, ...options };
+  }
+
+  push(entityId: string, serverTime: number, x: number, y: number) {
+    this.updateClockOffset(serverTime);
+
+    let track = this.entities.get(entityId);
+    if (!track) {
+      track = { buffer: [], rendered: null, renderedAt: 0 };
+      this.entities.set(entityId, track);
+    }
+
+    const { buffer } = track;
+    // Снимки могут прийти не по порядку — вставляем на своё место, дубликаты отбрасываем
+    let index = buffer.length;
+    while (index > 0 && buffer[index - 1].time > serverTime) index--;
+    if (buffer[index - 1]?.time === serverTime) return;
+    buffer.splice(index, 0, { time: serverTime, x, y });
+
+    if (buffer.length > this.options.bufferSize) {
+      buffer.splice(0, buffer.length - this.options.bufferSize);
+    }
+  }
+
+  // Снимки содержат только изменившиеся сущности: остальные на момент serverTime
+  // находятся там же, где в последнем известном состоянии
+  holdUnchanged(serverTime: number, changedIds: Set<string>) {
+    this.entities.forEach((track, entityId) => {
+      if (changedIds.has(entityId)) return;
+      const last = track.buffer[track.buffer.length - 1];
+      if (last && last.time < serverTime) {
+        this.push(entityId, serverTime, last.x, last.y);
+      }
+    });
+  }
+
+  remove(entityId: string) {
+    this.entities.delete(entityId);
+  }
+
+  clear() {
+    this.entities.clear();
+    this.clockOffset = null;
+  }
+
+  // Позиция сущности для отрисовки в текущий момент или null, если о ней ничего не известно
+  sample(entityId: string): { x: number; y: number } | null {
+    const track = this.entities.get(entityId);
+    if (!track || track.buffer.length === 0 || this.clockOffset === null) return null;
+
+    const now = this.clock();
+    const target = this.sampleBuffer(track.buffer, now + this.clockOffset - this.options.delay);
+
+    const { rendered } = track;
+    const elapsed = now - track.renderedAt;
+    track.renderedAt = now;
+
+    if (!rendered || Math.hypot(target.x - rendered.x, target.y - rendered.y) > this.options.snapDistance) {
+      track.rendered = target;
+      return target;
+    }
+
+    // Сглаживание не зависит от частоты кадров: доля догона считается по прошедшему времени
+    const t = this.options.smoothing > 0 ? 1 - Math.exp(-elapsed / this.options.smoothing) : 1;
+    track.rendered = {
+      x: rendered.x + (target.x - rendered.x) * t,
+      y: rendered.y + (target.y - rendered.y) * t,
+    };
+    return track.rendered;
+  }
+
+  private sampleBuffer(buffer: BufferedState[], renderTime: number): { x: number; y: number } {
+    const first = buffer[0];
+    if (renderTime <= first.time) return { x: first.x, y: first.y };
+
+    for (let i = 0; i < buffer.length - 1; i++) {
+      const from = buffer[i];
+      const to = buffer[i + 1];
+      if (renderTime < to.time) {
+        // Более старые снимки уже не понадобятся
+        if (i > 0) buffer.splice(0, i);
+        const t = (renderTime - from.time) / (to.time - from.time);
+        return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+      }
+    }
+
+    // Буфер иссяк: экстраполируем по последней скорости с ограничением по времени
+    const last = buffer[buffer.length - 1];
+    const previous = buffer[buffer.length - 2];
+    if (!previous) return { x: last.x, y: last.y };
+
+    const dt = Math.min(renderTime - last.time, this.options.maxExtrapolation);
+    const span = last.time - previous.time;
+    return {
+      x: last.x + ((last.x - previous.x) / span) * dt,
+      y: last.y + ((last.y - previous.y) / span) * dt,
+    };
+  }
+
+  // Пакеты могут только опаздывать, поэтому самый «ранний» пакет лучше всего
+  // отражает смещение часов. К более поздним оценкам подстраиваемся медленно,
+  // чтобы пережить дрейф часов и рост задержки.
+  private updateClockOffset(serverTime: number) {
+    const offset = serverTime - this.clock();
+    if (this.clockOffset === null || offset > this.clockOffset) {
+      this.clockOffset = offset;
+    } else {
+      this.clockOffset += (offset - this.clockOffset) * OFFSET_ADJUST_RATE;
+    }
+  }
+}
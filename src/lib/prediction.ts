@@ -0,0 +1,54 @@
+import {
+  GameConfig,
+  hasMovement,
+  MovementInput,
+  MovementState,
+  Position,
+  stepPlayer,
+} from '../../shared/movement';
+import { TileMap } from '../../shared/map';
+
+// Предсказание движения локального игрока со сверкой по ответам сервера.
+// Клиент сразу применяет свой ввод, а когда сервер подтверждает seq,
+// берёт серверную позицию и заново применяет ещё не подтверждённые вводы.
+// Других игроков (others) предсказание видит такими, какими они отрисованы:
+// толчки в них применит сервер, а мы только упираемся так же, как он.
+export class MovementPredictor {
+  private position: Position = { x: 0, y: 0 };
+  private pendingInputs: MovementInput[] = [];
+  private nextSeq = 1;
+
+  reset(position: Position) {
+    this.position = { ...position };
+    this.pendingInputs = [];
+  }
+
+  getPosition(): Position {
+    return this.position;
+  }
+
+  // Выполняет один тик симуляции. Возвращает ввод для отправки на сервер
+  // или null, если игрок стоит на месте.
+  step(state: MovementState, config: GameConfig, map: TileMap | null, others: Position[]): MovementInput | null {
+    if (!hasMovement(state)) return null;
+
+    const input: MovementInput = { ...state, seq: this.nextSeq++ };
+    this.position = stepPlayer(this.position, input, config, map, others).position;
+    this.pendingInputs.push(input);
+    return input;
+  }
+
+  reconcile(
+    serverPosition: Position,
+    ackSeq: number,
+    config: GameConfig,
+    map: TileMap | null,
+    others: Position[]
+  ) {
+    this.pendingInputs = this.pendingInputs.filter((input) => input.seq > ackSeq);
+    this.position = this.pendingInputs.reduce(
+      (position, input) => stepPlayer(position, input, config, map, others).position,
+      { x: serverPosition.x, y: serverPosition.y }
+    );
+  }
+}
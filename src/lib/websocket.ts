@@ -1,79 +1,140 @@
 // --- START OF FILE src/lib/websocket.ts ---
 
 import { Player } from '../types/game';
+import { MovementInput } from '../../shared/movement';
+import { DEFAULT_ROOM, RoomInfo } from '../../shared/rooms';
+import { GameModeName } from '../../shared/modes';
+import {
+  AUTH_FAILED_CLOSE_CODE,
+  ClientMessage,
+  HEARTBEAT_INTERVAL,
+  KickedMessage,
+  MAX_INPUTS_PER_MESSAGE,
+  MAX_MISSED_HEARTBEATS,
+  parseServerMessage,
+  PROTOCOL_VERSION,
+  ServerMessage,
+  toErrorMessage,
+  WireEncoding,
+} from '../../shared/protocol';
+import { decodeSnapshot } from '../../shared/binary';
+import { ChatChannel } from '../../shared/chat';
+import { Pixel } from '../../shared/board';
 
-type WebSocketMessage = {
-  type: 'position' | 'player_joined' | 'player_left' | 'game_state';
-  payload: any;
-};
+// VITE_WIRE_ENCODING=json отключает бинарные кадры (удобно смотреть трафик в DevTools)
+const PREFERRED_ENCODINGS: WireEncoding[] =
+  import.meta.env.VITE_WIRE_ENCODING === 'json' ? ['json'] : ['binary', 'json'];
 
-type WsEvent = 'connected' | 'disconnected';
+// Сколько ждать ответа на запрос списка комнат
+const ROOM_LIST_TIMEOUT = 5000;
+// Не чаще одного 'viewport' за столько мс: ресайз и колесо мыши дают десятки событий
+// в секунду, а сервер ограничивает частоту (см. RATE_LIMITS.viewport)
+const VIEWPORT_SEND_INTERVAL = 200;
+
+// auth_failed — сервер не принял токен сессии (см. AUTH_FAILED_CLOSE_CODE)
+type WsEvent = 'connected' | 'disconnected' | 'reconnecting' | 'auth_failed';
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
 
 class GameWebSocket {
   private ws: WebSocket | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectTimeout = 1000;
-  private messageHandlers: ((message: WebSocketMessage) => void)[] = [];
+  private messageHandlers: ((message: ServerMessage) => void)[] = [];
   private eventHandlers: { [key in WsEvent]?: (() => void)[] } = {};
   private isConnecting = false;
-  private messageQueue: string[] = [];
-  private positionBuffer: Map<string, { x: number; y: number }> = new Map();
-  private positionUpdateTimer: number | null = null;
-  private positionUpdateInterval = 1000 / 30;
-  private playerId: string | null = null;
+  private inputBuffer: MovementInput[] = [];
+  private inputUpdateTimer: number | null = null;
+  private inputUpdateInterval = 1000 / 30;
   private baseUrl: string;
+  private room: string | null = null;
+  // Режим, с которым комната создаётся, если её ещё нет (в том числе при переподключении)
+  private mode: GameModeName | undefined = undefined;
+  // Соответствие коротких handle из бинарных кадров идентификаторам игроков
+  private handles: Map<number, string> = new Map();
+  // Токен для возобновления сессии: с ним сервер вернёт нас в мир с прежней позицией
+  private resumeToken: string | null = null;
+  private reconnectTimer: number | null = null;
+  private isReconnecting = false;
+  private playerId: string | null = null;
+  // Токен сессии (см. lib/auth.ts): по нему сервер узнаёт, кто мы
+  private authToken: string | null = null;
+  // Собственная задержка до сервера по последнему замеру сервера, мс
+  private latency: number | null = null;
+  // Когда от сервера в последний раз что-то приходило: сервер пингует нас
+  // каждые HEARTBEAT_INTERVAL, так что долгая тишина означает мёртвое соединение
+  private lastMessageAt = 0;
+  private heartbeatTimer: number | null = null;
+  // Видимая область в единицах поля; сервер по ней решает, кого присылать с полной частотой
+  private viewport: { width: number; height: number } | null = null;
+  // Последняя область, которую сервер точно получил, и таймер следующей отправки
+  private sentViewport: { width: number; height: number } | null = null;
+  private viewportTimer: number | null = null;
+  // Сервер отключил нас сам (см. 'kicked'): переподключаться бесполезно
+  private kick: KickedMessage['payload'] | null = null;
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl;
   }
 
-  connect(player: Player) {
+  // token — токен сессии; mode — режим комнаты, если она создаётся этим подключением
+  connect(player: Player, token: string, room: string, mode?: GameModeName) {
     if (this.isConnecting || (this.ws && this.ws.readyState === WebSocket.OPEN)) {
       return;
     }
+    this.room = room;
+    this.mode = mode;
     this.playerId = player.id;
-    const urlWithPlayer = `${this.baseUrl}?playerId=${player.id}`;
+    this.authToken = token;
+    this.kick = null;
+    const resume = this.resumeToken ? `&resume=${encodeURIComponent(this.resumeToken)}` : '';
+    const modeParam = mode ? `&mode=${mode}` : '';
+    const urlWithPlayer = `${this.baseUrl}?token=${encodeURIComponent(token)}&room=${encodeURIComponent(room)}${modeParam}${resume}`;
     this.isConnecting = true;
 
     try {
       this.ws = new WebSocket(urlWithPlayer);
+      this.ws.binaryType = 'arraybuffer';
 
       this.ws.onopen = () => {
         console.log('WebSocket connected successfully. Firing "connected" event.');
         this.isConnecting = false;
+        this.isReconnecting = false;
+        this.reconnectAttempts = 0;
+        this.startHeartbeatWatch(player);
         
         this.fireEvent('connected');
 
-        const joinMessage = JSON.stringify({
+        // Рукопожатие должно идти первым: сервер отвергает сообщения до 'hello'
+        this.send({ type: 'hello', payload: { version: PROTOCOL_VERSION, encodings: PREFERRED_ENCODINGS } });
+        this.send({
           type: 'player_joined',
-          payload: player
+          payload: { id: player.id, name: player.name, color: player.color }
         });
-        this.ws?.send(joinMessage);
-        
-
-        while (this.messageQueue.length > 0) {
-          const message = this.messageQueue.shift();
-          if (message && this.ws?.readyState === WebSocket.OPEN) {
-            this.ws.send(message);
-          }
-        }
+        // Новое соединение ничего не знает о нашей области — шлём её заново
+        this.sentViewport = null;
+        if (this.viewportTimer === null) this.flushViewport();
       };
 
       this.ws.onmessage = (event) => {
+        this.lastMessageAt = Date.now();
         try {
-          const message = JSON.parse(event.data) as WebSocketMessage;
-          this.messageHandlers.forEach(handler => handler(message));
+          if (event.data instanceof ArrayBuffer) {
+            this.handleBinaryFrame(event.data);
+          } else {
+            this.dispatch(parseServerMessage(event.data));
+          }
         } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
+          // Сообщаем серверу, что его сообщение не прошло проверку
+          console.error('Rejected WebSocket message:', error);
+          this.send(toErrorMessage(error));
         }
       };
 
-      this.ws.onclose = () => {
-        console.log('WebSocket disconnected. Firing "disconnected" event.');
-        this.isConnecting = false;
-        this.fireEvent('disconnected');
-        this.attemptReconnect(player);
+      this.ws.onclose = (event) => {
+        if (event.code === AUTH_FAILED_CLOSE_CODE) this.handleAuthFailure();
+        else this.handleClose(player);
       };
 
       this.ws.onerror = (error) => {
@@ -87,20 +148,107 @@ class GameWebSocket {
     }
   }
 
+  private handleClose(player: Player) {
+    console.log('WebSocket disconnected. Firing "disconnected" event.');
+    this.isConnecting = false;
+    this.stopHeartbeatWatch();
+    this.latency = null;
+    // Накопленные вводы не отправляем после переподключения: сервер вернёт нас
+    // на свою позицию, а пачка старых вводов телепортировала бы игрока
+    this.inputBuffer = [];
+    this.fireEvent('disconnected');
+    this.attemptReconnect(player);
+  }
+
+  // С этим токеном сервер нас больше не пустит: не переподключаемся, а просим войти заново
+  private handleAuthFailure() {
+    console.warn('Session token was rejected by the server.');
+    this.isConnecting = false;
+    this.isReconnecting = false;
+    this.reconnectAttempts = this.maxReconnectAttempts;
+    this.stopHeartbeatWatch();
+    this.latency = null;
+    this.inputBuffer = [];
+    this.ws = null;
+    this.authToken = null;
+    this.resumeToken = null;
+    this.fireEvent('disconnected');
+    this.fireEvent('auth_failed');
+  }
+
+  // Полуоткрытое соединение браузер может не закрывать минутами —
+  // если сервер замолчал, бросаем сокет сами и сразу переподключаемся
+  private startHeartbeatWatch(player: Player) {
+    this.stopHeartbeatWatch();
+    this.lastMessageAt = Date.now();
+    this.heartbeatTimer = window.setInterval(() => {
+      if (Date.now() - this.lastMessageAt < HEARTBEAT_INTERVAL * MAX_MISSED_HEARTBEATS) return;
+      console.warn('No heartbeat from server. Dropping connection.');
+      const stale = this.ws;
+      this.ws = null;
+      if (stale) {
+        stale.onclose = null;
+        stale.close();
+      }
+      this.handleClose(player);
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  private stopHeartbeatWatch() {
+    if (this.heartbeatTimer) {
+      window.clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
   private attemptReconnect(player: Player) {
     if (this.reconnectAttempts < this.maxReconnectAttempts) {
       this.reconnectAttempts++;
-      setTimeout(() => this.connect(player), this.reconnectTimeout * this.reconnectAttempts);
+      this.isReconnecting = true;
+      this.fireEvent('reconnecting');
+      this.reconnectTimer = window.setTimeout(() => {
+        this.reconnectTimer = null;
+        if (this.authToken) this.connect(player, this.authToken, this.room ?? DEFAULT_ROOM, this.mode);
+      }, this.reconnectTimeout * this.reconnectAttempts);
+    } else {
+      this.isReconnecting = false;
     }
   }
   
   disconnect() {
+    if (this.reconnectTimer) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.isReconnecting = false;
+    this.stopHeartbeatWatch();
+    this.latency = null;
+    this.inputBuffer = [];
     if (this.ws) {
       this.reconnectAttempts = this.maxReconnectAttempts;
+      // Намеренный выход: просим сервер не держать игрока в ожидании переподключения
+      this.send({ type: 'leave' });
       this.ws.onclose = null;
       this.ws.close();
       this.ws = null;
     }
+    this.resumeToken = null;
+  }
+
+  getKick(): KickedMessage['payload'] | null {
+    return this.kick;
+  }
+
+  getLatency(): number | null {
+    return this.latency;
+  }
+
+  getConnectionState(): { state: ConnectionState; attemptsLeft: number } {
+    const attemptsLeft = this.maxReconnectAttempts - this.reconnectAttempts;
+    if (this.ws?.readyState === WebSocket.OPEN) return { state: 'connected', attemptsLeft };
+    if (this.isReconnecting) return { state: 'reconnecting', attemptsLeft };
+    if (this.isConnecting) return { state: 'connecting', attemptsLeft };
+    return { state: 'disconnected', attemptsLeft };
   }
 
   on(event: WsEvent, handler: () => void) {
@@ -118,35 +266,170 @@ class GameWebSocket {
     this.eventHandlers[event]?.forEach(handler => handler());
   }
   
+  // Список комнат запрашивается через отдельное короткое соединение,
+  // так как до выбора комнаты игрок ещё не подключён к игре
+  listRooms(): Promise<RoomInfo[]> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.baseUrl);
+      const timeout = window.setTimeout(() => {
+        socket.close();
+        reject(new Error('Timed out waiting for room list'));
+      }, ROOM_LIST_TIMEOUT);
+
+      socket.onopen = () => {
+        const messages: ClientMessage[] = [
+          { type: 'hello', payload: { version: PROTOCOL_VERSION } },
+          { type: 'list_rooms' },
+        ];
+        messages.forEach(message => socket.send(JSON.stringify(message)));
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const message = parseServerMessage(event.data);
+          if (message.type !== 'room_list') return;
+          window.clearTimeout(timeout);
+          socket.close();
+          resolve(message.payload.rooms);
+        } catch (error) {
+          console.error('Error parsing room list:', error);
+        }
+      };
+
+      socket.onerror = () => {
+        window.clearTimeout(timeout);
+        reject(new Error('Failed to load room list'));
+      };
+    });
+  }
+
+  updatePlayer(changes: { name?: string; color?: string }) {
+    this.send({ type: 'update_player', payload: changes });
+  }
+
+  sendChat(channel: ChatChannel, text: string) {
+    this.send({ type: 'chat', payload: { channel, text } });
+  }
+
+  // Первое изменение уходит сразу, следующие копятся до конца интервала,
+  // и по его окончании уходит последнее значение
+  setViewport(width: number, height: number) {
+    this.viewport = { width: Math.ceil(width), height: Math.ceil(height) };
+    if (this.viewportTimer === null) this.flushViewport();
+  }
+
+  private flushViewport() {
+    const viewport = this.viewport;
+    if (!viewport) return;
+    if (this.sentViewport?.width === viewport.width && this.sentViewport?.height === viewport.height) return;
+    // Без соединения запоминать нечего: область уйдёт при открытии (см. onopen)
+    if (!this.send({ type: 'viewport', payload: viewport })) return;
+    this.sentViewport = viewport;
+    this.viewportTimer = window.setTimeout(() => {
+      this.viewportTimer = null;
+      this.flushViewport();
+    }, VIEWPORT_SEND_INTERVAL);
+  }
+
+  paint(pixel: Pixel) {
+    this.send({ type: 'paint', payload: pixel });
+  }
+
   requestGameState() {
     if (this.ws?.readyState === WebSocket.OPEN) {
       console.log("Requesting game state from server...");
-      this.ws.send(JSON.stringify({ type: 'request_game_state' }));
+      this.send({ type: 'request_game_state' });
     } else {
       console.error("Cannot request game state: WebSocket is not open.");
     }
   }
 
-  sendPosition(playerId: string, x: number, y: number) {
-    this.positionBuffer.set(playerId, { x, y });
-    if (!this.positionUpdateTimer) {
-        this.positionUpdateTimer = window.setInterval(() => {
+  // Вводы копятся и уходят пачкой, чтобы не слать сообщение на каждый тик.
+  // Без соединения ввод отбрасывается: сервер его не увидит, а после переподключения
+  // пришлёт в 'game_state' свою позицию
+  sendInput(input: MovementInput) {
+    if (!this.isConnected()) return;
+    this.inputBuffer.push(input);
+    if (!this.inputUpdateTimer) {
+        this.inputUpdateTimer = window.setInterval(() => {
             if (this.ws?.readyState !== WebSocket.OPEN) return;
-            const positionMessages: string[] = [];
-            this.positionBuffer.forEach((pos, id) => {
-                positionMessages.push(JSON.stringify({
-                    type: 'position', payload: { playerId: id, x: pos.x, y: pos.y }
-                }));
-            });
-            if (positionMessages.length > 0) {
-                positionMessages.forEach(msg => this.ws?.send(msg));
-                this.positionBuffer.clear();
+            // Длинную очередь режем на части: сервер ограничивает число вводов в сообщении
+            while (this.inputBuffer.length > 0) {
+                const inputs = this.inputBuffer.splice(0, MAX_INPUTS_PER_MESSAGE);
+                this.send({ type: 'input', payload: { inputs } });
             }
-        }, this.positionUpdateInterval);
+        }, this.inputUpdateInterval);
+    }
+  }
+
+  // Бинарный снимок превращаем в обычное сообщение 'snapshot',
+  // чтобы обработчикам не нужно было знать о кодировке
+  private handleBinaryFrame(buffer: ArrayBuffer) {
+    const { tick, time, entities } = decodeSnapshot(buffer);
+    const resolved = entities.flatMap(({ handle, x, y, seq }) => {
+      const playerId = this.handles.get(handle);
+      return playerId ? [{ playerId, x, y, seq }] : [];
+    });
+    this.dispatch({ type: 'snapshot', payload: { tick, time, entities: resolved } });
+  }
+
+  private dispatch(message: ServerMessage) {
+    switch (message.type) {
+      case 'game_state':
+        this.handles = new Map(message.payload.players.map(p => [p.handle, p.id]));
+        break;
+      case 'player_joined':
+        this.handles.set(message.payload.handle, message.payload.id);
+        break;
+      case 'view_enter':
+        message.payload.players.forEach(p => this.handles.set(p.handle, p.id));
+        break;
+      case 'player_left':
+        this.forgetHandles([message.payload.playerId]);
+        break;
+      case 'view_leave':
+        this.forgetHandles(message.payload.playerIds);
+        break;
+      case 'session':
+        this.resumeToken = message.payload.resumeToken;
+        break;
+      case 'kicked':
+        // Сервер сейчас закроет соединение; сессию он уже удалил
+        this.kick = message.payload;
+        this.reconnectAttempts = this.maxReconnectAttempts;
+        this.resumeToken = null;
+        break;
+      case 'ping':
+        this.send({ type: 'pong', payload: { seq: message.payload.seq } });
+        break;
+      case 'latency': {
+        const own = message.payload.players.find(p => p.playerId === this.playerId);
+        if (own) this.latency = own.rtt;
+        break;
+      }
+      case 'snapshot':
+        // Подтверждаем снимок, чтобы сервер слал следующие дельтой относительно него
+        this.send({ type: 'snapshot_ack', payload: { tick: message.payload.tick } });
+        break;
     }
+    this.messageHandlers.forEach(handler => handler(message));
+  }
+
+  private forgetHandles(playerIds: string[]) {
+    const ids = new Set(playerIds);
+    this.handles.forEach((id, handle) => {
+      if (ids.has(id)) this.handles.delete(handle);
+    });
+  }
+
+  // Возвращает false, если сообщение не ушло (соединение не открыто)
+  private send(message: ClientMessage): boolean {
+    if (this.ws?.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(JSON.stringify(message));
+    return true;
   }
 
-  onMessage(handler: (message: WebSocketMessage) => void) {
+  onMessage(handler: (message: ServerMessage) => void) {
     this.messageHandlers.push(handler);
     return () => {
       this.messageHandlers = this.messageHandlers.filter(h => h !== handler);
@@ -158,7 +441,7 @@ class GameWebSocket {
   }
 }
 
-const wsUrl = import.meta.env.VITE_WEBSOCKET_URL || 'ws://localhost:3001';
-export const gameWebSocket = new GameWebSocket(wsUrl);
+export const WEBSOCKET_URL: string = import.meta.env.VITE_WEBSOCKET_URL || 'ws://localhost:3001';
+export const gameWebSocket = new GameWebSocket(WEBSOCKET_URL);
 
 export default gameWebSocket;
\ No newline at end of file
@@ -0,0 +1,14 @@
+import React from 'react';
+import { ModeHudProps } from './types';
+import type { TagState } from './tag';
+
+const TagHud: React.FC<ModeHudProps<TagState>> = ({ state, round, currentPlayerId }) => {
+  if (round.phase !== 'playing' || !currentPlayerId || state.itPlayerId !== currentPlayerId) return null;
+  return (
+    <div className="absolute top-2 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full bg-red-600/90 text-sm font-bold text-white shadow-lg">
+      You're it! Tag someone
+    </div>
+  );
+};
+
+export default TagHud;
@@ -0,0 +1,10 @@
+import { defineMode } from './types';
+
+// Free roam has no rules, so nothing to track or draw
+export const freeRoamMode = defineMode<null>({
+  name: 'free-roam',
+  label: 'Free roam',
+  hasRounds: false,
+  initialState: null,
+  reduce: (state) => state,
+});
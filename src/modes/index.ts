@@ -0,0 +1,15 @@
+import { DEFAULT_GAME_MODE, GameModeName } from '../../shared/modes';
+import { AnyGameMode } from './types';
+import { freeRoamMode } from './freeRoam';
+import { tagMode } from './tag';
+
+const CLIENT_MODES: Record<GameModeName, AnyGameMode> = {
+  'free-roam': freeRoamMode,
+  tag: tagMode,
+};
+
+export const getClientMode = (name: GameModeName): AnyGameMode => CLIENT_MODES[name];
+
+export const DEFAULT_CLIENT_MODE = CLIENT_MODES[DEFAULT_GAME_MODE];
+
+export type { AnyGameMode, CanvasLayer, CanvasView, RoundState } from './types';
@@ -0,0 +1,45 @@
+import { defineMode } from './types';
+import TagHud from './TagHud';
+
+export interface TagState {
+  itPlayerId: string | null;
+}
+
+export const tagMode = defineMode<TagState>({
+  name: 'tag',
+  label: 'Tag',
+  hasRounds: true,
+  initialState: { itPlayerId: null },
+
+  reduce: (state, message) => {
+    switch (message.type) {
+      case 'game_state':
+        return { itPlayerId: null };
+      case 'it_changed':
+        return { itPlayerId: message.payload.playerId };
+      case 'round_ended':
+        return { itPlayerId: null };
+      default:
+        return state;
+    }
+  },
+
+  // The "it" player glows red so everyone can see who to run from
+  drawLayer: ({ ctx, toScreenX, toScreenY, scale, playerSize, players }, state) => {
+    const it = players.find((player) => player.id === state.itPlayerId);
+    if (!it) return;
+
+    const size = playerSize * scale;
+    ctx.save();
+    ctx.shadowColor = '#ff3b3b';
+    ctx.shadowBlur = 12;
+    ctx.strokeStyle = '#ff3b3b';
+    ctx.lineWidth = 3;
+    ctx.strokeRect(toScreenX(it.x) - 3, toScreenY(it.y) - 3, size + 6, size + 6);
+    ctx.restore();
+  },
+
+  Hud: TagHud,
+
+  playerBadge: (state, playerId) => (playerId === state.itPlayerId ? 'IT' : null),
+});
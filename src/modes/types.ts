@@ -0,0 +1,62 @@
+import type React from 'react';
+import { Player } from '../types/game';
+import { GameModeName, RoundPhase, ScoreEntry } from '../../shared/modes';
+import { ServerMessage } from '../../shared/protocol';
+
+// Client side of a game mode: how the mode is shown, not its rules (those live on the server).
+// A mode keeps its own state, built from server messages by `reduce`, and can contribute
+// a canvas layer to GameField, a HUD overlay and a badge next to players in PlayerList.
+
+// Shared round lifecycle state, tracked for every mode with rounds
+export interface RoundState {
+  phase: RoundPhase;
+  // Local time (Date.now()) when the current round or intermission ends
+  endsAt: number | null;
+  // Scores by player id
+  scores: Record<string, number>;
+  // Winner of the last finished round
+  winner: ScoreEntry | null;
+}
+
+// What a canvas layer gets to draw with; coordinates are in field units
+export interface CanvasView {
+  ctx: CanvasRenderingContext2D;
+  toScreenX: (x: number) => number;
+  toScreenY: (y: number) => number;
+  // Screen pixels per field unit
+  scale: number;
+  playerSize: number;
+  // Players currently in the camera view
+  players: Player[];
+  currentPlayerId: string | null;
+}
+
+export type CanvasLayer = (view: CanvasView) => void;
+
+export interface ModeHudProps<S> {
+  state: S;
+  round: RoundState;
+  currentPlayerId: string | null;
+}
+
+export interface ClientGameMode<S> {
+  name: GameModeName;
+  label: string;
+  // Rounds bring a timer to GameHeader and scores to PlayerList
+  hasRounds: boolean;
+  initialState: S;
+  // Applies a server message to the mode state; unrelated messages return the state unchanged
+  reduce: (state: S, message: ServerMessage) => S;
+  // Drawn on top of the players, below speech bubbles
+  drawLayer?: (view: CanvasView, state: S) => void;
+  // Rendered over the game field
+  Hud?: React.FC<ModeHudProps<S>>;
+  // Short label shown next to a player in PlayerList
+  playerBadge?: (state: S, playerId: string) => string | null;
+}
+
+// The registry stores modes with their state type erased; each mode only ever
+// receives the state it produced itself
+export type AnyGameMode = ClientGameMode<unknown>;
+
+export const defineMode = <S>(mode: ClientGameMode<S>): AnyGameMode => mode as unknown as AnyGameMode;
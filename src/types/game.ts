@@ -1,16 +1,14 @@
+import type { PlayerStatus } from '../../shared/protocol';
+
 export interface Player {
   id: string;
   name: string;
   x: number;
   y: number;
   color: string;
-  targetX?: number;
-  targetY?: number;
+  status?: PlayerStatus;
+  // Задержка до сервера (RTT) в мс
+  ping?: number;
 }
 
-export interface GameConfig {
-  fieldWidth: number;
-  fieldHeight: number;
-  playerSize: number;
-  moveSpeed: number;
-}
\ No newline at end of file
+export type { GameConfig } from '../../shared/movement';
\ No newline at end of file
@@ -0,0 +1,52 @@
+/*
+  # Add all-time player scores
+
+  1. New Tables
+    - `player_scores`
+      - `player_id` (text, primary key): Player identifier (not a foreign key:
+        rows in `players` are deleted when a player leaves, scores are kept)
+      - `name` (text): Last known display name, shown on the leaderboard
+      - `score` (integer): Points collected over all sessions
+      - `updated_at` (timestamptz): Time of the last pickup
+
+  2. Functions
+    - `add_player_score(p_player_id, p_name, p_points)`: atomically adds
+      points and returns the new total
+
+  3. Security
+    - Enable RLS on `player_scores`
+    - Anyone can read the leaderboard; only the game server (service role,
+      which bypasses RLS) writes scores
+*/
+
+CREATE TABLE IF NOT EXISTS player_scores (
+  player_id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  score INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS player_scores_score_idx ON player_scores (score DESC);
+
+ALTER TABLE player_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read player scores"
+  ON player_scores
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE OR REPLACE FUNCTION add_player_score(p_player_id TEXT, p_name TEXT, p_points INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  INSERT INTO player_scores (player_id, name, score)
+  VALUES (p_player_id, p_name, p_points)
+  ON CONFLICT (player_id) DO UPDATE
+    SET score = player_scores.score + EXCLUDED.score,
+        name = EXCLUDED.name,
+        updated_at = now()
+  RETURNING score;
+$$;
+
+REVOKE EXECUTE ON FUNCTION add_player_score(TEXT, TEXT, INTEGER) FROM public;
@@ -0,0 +1,51 @@
+/*
+  # Add accounts and tighten player row security
+
+  1. New Tables
+    - `accounts`
+      - `id` (text, primary key): Player id issued to the account (a UUID)
+      - `username` (text, unique): Normalized (lower-case) login name
+      - `password_hash` (text): scrypt hash with its salt, never the password
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `accounts` without any policies: only the game server
+      (service role, which bypasses RLS) can read or write accounts
+    - Replace the `players` write policies: the old ones also allowed any
+      request without a Supabase session (`auth.uid() IS NULL`), so anyone
+      could insert, update or delete any player. Now a signed-in Supabase
+      user can only touch the row whose id is their own user id; the game
+      server keeps full access through the service role
+*/
+
+CREATE TABLE IF NOT EXISTS accounts (
+  id TEXT PRIMARY KEY,
+  username TEXT NOT NULL UNIQUE,
+  password_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Players can insert their own data" ON players;
+DROP POLICY IF EXISTS "Players can update their own data" ON players;
+DROP POLICY IF EXISTS "Players can delete their own data" ON players;
+
+CREATE POLICY "Players can insert their own data"
+  ON players
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid()::text = id);
+
+CREATE POLICY "Players can update their own data"
+  ON players
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid()::text = id)
+  WITH CHECK (auth.uid()::text = id);
+
+CREATE POLICY "Players can delete their own data"
+  ON players
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid()::text = id);